@@ -4,8 +4,19 @@
  * 将 axios 实例适配为统一的 HttpAdapter 接口
  */
 
-import type { AxiosInstance, AxiosResponse, AxiosRequestConfig } from 'axios';
-import type { RequestConfig, ResponseData, HttpAdapter } from '../engine';
+import type { AxiosError, AxiosInstance, AxiosResponse, AxiosRequestConfig } from 'axios';
+import type {
+  RequestConfig,
+  ResponseData,
+  ResponseDecoder,
+  HttpAdapter,
+  ParamsSerializer,
+  ValidateStatus,
+} from '../engine';
+import { throwIfAborted } from '../engine/abort';
+import { interpolatePath, serializeParams } from '../engine/url';
+import { decodeBody, decodeErrorBody, hasResponseBody } from '../engine/decode';
+import { HttpError, ParseError, TimeoutError, NetworkError, toRequestError, type RequestError } from '../engine/errors';
 
 /**
  * Axios 适配器配置
@@ -13,33 +24,84 @@ import type { RequestConfig, ResponseData, HttpAdapter } from '../engine';
 export interface AxiosAdapterConfig {
   /** Axios 实例 */
   instance: AxiosInstance;
+  /** 状态码校验，请求配置中的 `validateStatus` 优先；未设置时沿用 axios 实例的配置（默认仅 2xx 视为成功） */
+  validateStatus?: ValidateStatus;
+  /**
+   * query 参数序列化方式，请求配置中的 `paramsSerializer` 优先；默认数组重复键名、嵌套对象使用方括号
+   *
+   * 始终替代 axios 实例的 `paramsSerializer`，保证与 fetch / EventSource adapter 生成相同的 URL
+   */
+  paramsSerializer?: ParamsSerializer;
+  /**
+   * 是否使用与 fetch adapter 相同的响应体解码（见 `decodeBody()`），默认 false（沿用 axios 自身的解析）
+   *
+   * 开启后 `responseType` 为空、`json` 或 `text` 的请求以 `responseType: 'text'` 交给 axios 并跳过 `transformResponse`，
+   * 再按 Content-Type 解码；`blob` / `arraybuffer` / `stream` 仍交给 axios 处理
+   */
+  decodeResponse?: boolean;
+  /** 自定义响应体解码器，键为 MIME 类型，仅在 `decodeResponse` 开启时生效 */
+  responseDecoders?: Record<string, ResponseDecoder>;
+}
+
+/**
+ * 是否由 adapter 解码响应文本
+ */
+function shouldDecode(config: RequestConfig, options: AxiosAdapterConfig): boolean {
+  const { responseType } = config;
+  return options.decodeResponse === true && (!responseType || responseType === 'json' || responseType === 'text');
 }
 
 /**
  * 将内部请求配置转换为 Axios 请求配置
+ *
+ * 路径模板在此展开（见 `interpolatePath()`），baseURL 与 params 交给 axios 拼接，params 的序列化使用 `serializeParams()`
  */
-function toAxiosConfig<TData = unknown>(config: RequestConfig<TData>): AxiosRequestConfig<TData> {
+function toAxiosConfig<TData = unknown>(
+  config: RequestConfig<TData>,
+  options: AxiosAdapterConfig
+): AxiosRequestConfig<TData> {
+  const { paramsSerializer } = options;
+  const decode = shouldDecode(config, options);
+  // 未设置时不传该键：axios 会保留显式的 undefined，从而丢失实例的默认校验（接受任意状态码）
+  const validateStatus = config.validateStatus ?? options.validateStatus;
   return {
-    url: config.url,
+    url: config.pathParams ? interpolatePath(config.url, config.pathParams) : config.url,
     method: config.method,
     headers: config.headers,
     params: config.params,
+    paramsSerializer: (params: Record<string, unknown>) =>
+      serializeParams(params, config.paramsSerializer ?? paramsSerializer),
     data: config.data,
     timeout: config.timeout,
     baseURL: config.baseURL,
-    responseType: config.responseType,
+    responseType: decode ? 'text' : config.responseType,
+    ...(decode && { transformResponse: (data: unknown) => data }),
+    signal: config.signal,
+    ...(validateStatus && { validateStatus }),
   };
 }
 
 /**
- * 将 Axios 响应转换为内部响应格式
+ * 将 Axios 响应转换为内部响应格式，开启 `decodeResponse` 时按 Content-Type 解码响应文本
  */
 function fromAxiosResponse<TData = unknown>(
   axiosResponse: AxiosResponse<TData>,
-  config: RequestConfig
+  config: RequestConfig,
+  options: AxiosAdapterConfig
 ): ResponseData<TData> {
+  let data: unknown = axiosResponse.data;
+  if (shouldDecode(config, options)) {
+    data = hasResponseBody(axiosResponse.status, config.method)
+      ? decodeBody(typeof data === 'string' ? data : '', { ...axiosResponse.headers } as Record<string, string>, {
+        responseType: config.responseType,
+        decoders: options.responseDecoders,
+        config,
+        status: axiosResponse.status,
+      })
+      : undefined;
+  }
   return {
-    data: axiosResponse.data,
+    data: data as TData,
     status: axiosResponse.status,
     statusText: axiosResponse.statusText,
     headers: axiosResponse.headers as Record<string, string>,
@@ -47,6 +109,54 @@ function fromAxiosResponse<TData = unknown>(
   };
 }
 
+/**
+ * 是否为 AxiosError（不依赖 axios 运行时，兼容多个 axios 实例）
+ */
+function isAxiosError(error: unknown): error is AxiosError {
+  return typeof error === 'object' && error !== null && (error as AxiosError).isAxiosError === true;
+}
+
+/**
+ * 将 AxiosError 转换为统一的请求错误
+ *
+ * - 带响应：响应体解析失败为 ParseError，否则为 HttpError
+ * - 超时（ECONNABORTED / ETIMEDOUT）：TimeoutError
+ * - 其余未收到响应的失败：NetworkError
+ */
+function fromAxiosError(error: unknown, config: RequestConfig, options: AxiosAdapterConfig): RequestError {
+  if (!isAxiosError(error)) {
+    return toRequestError(error, config);
+  }
+
+  const { response, code } = error;
+  if (response) {
+    if (error.cause instanceof SyntaxError) {
+      return new ParseError(error.message, {
+        config,
+        cause: error,
+        status: response.status,
+        body: typeof response.data === 'string' ? response.data : undefined,
+      });
+    }
+    const headers = { ...response.headers } as Record<string, string>;
+    return new HttpError({
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      body: shouldDecode(config, options) && typeof response.data === 'string'
+        ? decodeErrorBody(response.data, headers, options.responseDecoders)
+        : response.data,
+      config,
+      cause: error,
+    });
+  }
+
+  if (code === 'ECONNABORTED' || code === 'ETIMEDOUT') {
+    return new TimeoutError(config.timeout ?? 0, { config, cause: error });
+  }
+  return new NetworkError(error.message, { config, cause: error });
+}
+
 /**
  * 创建 Axios 适配器
  * 
@@ -69,9 +179,16 @@ export function createAxiosAdapter(config: AxiosAdapterConfig): HttpAdapter {
     async request<TReqData = unknown, TResData = unknown>(
       requestConfig: RequestConfig<TReqData>
     ): Promise<ResponseData<TResData>> {
-      const axiosConfig = toAxiosConfig(requestConfig);
-      const response = await instance.request<TResData>(axiosConfig);
-      return fromAxiosResponse(response, requestConfig);
+      throwIfAborted(requestConfig.signal);
+      const axiosConfig = toAxiosConfig(requestConfig, config);
+      try {
+        const response = await instance.request<TResData>(axiosConfig);
+        return fromAxiosResponse(response, requestConfig, config);
+      } catch (error) {
+        // axios 的 CanceledError 统一转换为 AbortError，其余 AxiosError 转换为对应的请求错误
+        throwIfAborted(requestConfig.signal);
+        throw fromAxiosError(error, requestConfig, config);
+      }
     },
   };
 }
@@ -5,7 +5,20 @@
  */
 
 import { fetchEventSource } from '@microsoft/fetch-event-source';
-import type { RequestConfig, ResponseData, HttpAdapter } from '../engine';
+import type {
+  BodyEncoder,
+  RequestConfig,
+  ResponseData,
+  ResponseDecoder,
+  HttpAdapter,
+  ParamsSerializer,
+  ValidateStatus,
+} from '../engine';
+import { createAbortError, throwIfAborted } from '../engine/abort';
+import { buildUrl } from '../engine/url';
+import { encodeBody } from '../engine/body';
+import { decodeErrorBody } from '../engine/decode';
+import { HttpError, TimeoutError, defaultValidateStatus, toRequestError } from '../engine/errors';
 
 export type EventSourceMessage = {
   data: string;
@@ -123,6 +136,14 @@ export interface EventSourceAdapterConfig {
   defaultHeaders?: Record<string, string>;
   /** 是否自动添加 Accept: text/event-stream（默认 true） */
   autoAcceptEventStream?: boolean;
+  /** 状态码校验，请求配置中的 `validateStatus` 优先；默认仅 2xx 视为成功 */
+  validateStatus?: ValidateStatus;
+  /** query 参数序列化方式，请求配置中的 `paramsSerializer` 优先；默认数组重复键名、嵌套对象使用方括号 */
+  paramsSerializer?: ParamsSerializer;
+  /** 自定义请求体编码器，键为 MIME 类型（如 `application/x-msgpack`），按请求头的 Content-Type 选择（见 `encodeBody()`） */
+  bodyEncoders?: Record<string, BodyEncoder>;
+  /** 自定义响应体解码器，用于非事件流响应（错误响应或通过 validateStatus 的非 2xx 响应），见 `decodeBody()` */
+  responseDecoders?: Record<string, ResponseDecoder>;
   /** 事件监听器 */
   onMessage?: (event: EventSourceMessage) => void;
   onOpen?: (response: Response) => void | Promise<void>;
@@ -130,34 +151,6 @@ export interface EventSourceAdapterConfig {
   onClose?: () => void;
 }
 
-/**
- * 构建完整 URL
- */
-function buildUrl(config: RequestConfig, baseURL?: string): string {
-  let url = config.url;
-
-  // 处理 baseURL
-  if (baseURL && !url.startsWith('http://') && !url.startsWith('https://')) {
-    url = baseURL.replace(/\/$/, '') + '/' + url.replace(/^\//, '');
-  }
-
-  // 处理 query params
-  if (config.params && Object.keys(config.params).length > 0) {
-    const searchParams = new URLSearchParams();
-    for (const [key, value] of Object.entries(config.params)) {
-      if (value !== undefined && value !== null) {
-        searchParams.append(key, String(value));
-      }
-    }
-    const queryString = searchParams.toString();
-    if (queryString) {
-      url += (url.includes('?') ? '&' : '?') + queryString;
-    }
-  }
-
-  return url;
-}
-
 /**
  * 创建 EventSource 适配器
  *
@@ -178,6 +171,10 @@ export function createEventSourceAdapter(config: EventSourceAdapterConfig = {}):
     baseURL,
     defaultHeaders = {},
     autoAcceptEventStream = true,
+    validateStatus = defaultValidateStatus,
+    paramsSerializer,
+    bodyEncoders,
+    responseDecoders,
     onMessage,
     onOpen,
     onError,
@@ -188,37 +185,27 @@ export function createEventSourceAdapter(config: EventSourceAdapterConfig = {}):
     async request<TReqData = unknown, TResData = unknown>(
       requestConfig: RequestConfig<TReqData>
     ): Promise<ResponseData<TResData>> {
-      const url = buildUrl(requestConfig, requestConfig.baseURL || baseURL);
+      const externalSignal = requestConfig.signal;
+      throwIfAborted(externalSignal);
+
+      const url = buildUrl(requestConfig, baseURL, paramsSerializer);
 
       // 构建请求头
-      const headers: Record<string, string> = {
+      const requestHeaders: Record<string, string> = {
         ...defaultHeaders,
         ...requestConfig.headers,
       };
 
-      if (autoAcceptEventStream && !headers['Accept'] && !headers['accept']) {
-        headers['Accept'] = 'text/event-stream';
+      if (autoAcceptEventStream && !requestHeaders['Accept'] && !requestHeaders['accept']) {
+        requestHeaders['Accept'] = 'text/event-stream';
       }
 
-      // 处理请求体（与 fetch adapter 保持一致）
-      let body: string | BodyInit | undefined;
-      if (requestConfig.data !== undefined) {
-        if (
-          typeof requestConfig.data === 'object' &&
-          !(requestConfig.data instanceof FormData) &&
-          !(requestConfig.data instanceof Blob) &&
-          !(requestConfig.data instanceof ArrayBuffer)
-        ) {
-          body = JSON.stringify(requestConfig.data);
-          if (!headers['Content-Type'] && !headers['content-type']) {
-            headers['Content-Type'] = 'application/json';
-          }
-        } else {
-          body = requestConfig.data as unknown as BodyInit;
-        }
-      }
+      // 处理请求体（与 fetch adapter 相同，见 encodeBody()）
+      const { body, headers } = encodeBody(requestConfig.data, requestHeaders, {
+        encoders: bodyEncoders,
+        paramsSerializer: requestConfig.paramsSerializer ?? paramsSerializer,
+      });
 
-      const externalSignal = requestConfig.signal as AbortSignal | undefined;
       const abortController = new AbortController();
 
       const onExternalAbort = () => abortController.abort();
@@ -228,8 +215,12 @@ export function createEventSourceAdapter(config: EventSourceAdapterConfig = {}):
       }
 
       let timeoutId: ReturnType<typeof setTimeout> | undefined;
+      let timedOut = false;
       if (requestConfig.timeout && requestConfig.timeout > 0) {
-        timeoutId = setTimeout(() => abortController.abort(), requestConfig.timeout);
+        timeoutId = setTimeout(() => {
+          timedOut = true;
+          abortController.abort();
+        }, requestConfig.timeout);
       }
 
       const queue = createAsyncQueue<EventSourceMessage>();
@@ -256,11 +247,16 @@ export function createEventSourceAdapter(config: EventSourceAdapterConfig = {}):
               body: body as any,
               signal: abortController.signal,
               onopen: async (response) => {
-                if (!response.ok) {
+                const responseHeaders = headersToObject(response.headers);
+                if (!(requestConfig.validateStatus ?? validateStatus)(response.status)) {
                   const text = await response.text().catch(() => undefined);
-                  const err = new Error(`HTTP Error: ${response.status} ${response.statusText}${text ? ` - ${text}` : ''}`);
-                  (err as Error & { status?: number; body?: string }).status = response.status;
-                  (err as Error & { status?: number; body?: string }).body = text;
+                  const err = new HttpError({
+                    status: response.status,
+                    statusText: response.statusText,
+                    headers: responseHeaders,
+                    body: decodeErrorBody(text, responseHeaders, responseDecoders),
+                    config: requestConfig,
+                  });
                   queue.fail(err);
                   if (!settled) {
                     settled = true;
@@ -269,13 +265,31 @@ export function createEventSourceAdapter(config: EventSourceAdapterConfig = {}):
                   throw err;
                 }
 
+                // 通过 validateStatus 的非 2xx 响应不是事件流：以解析后的响应体作为 data 返回并结束连接
+                if (!response.ok) {
+                  const text = await response.text().catch(() => undefined);
+                  if (!settled) {
+                    settled = true;
+                    resolve({
+                      data: decodeErrorBody(text, responseHeaders, responseDecoders) as TResData,
+                      status: response.status,
+                      statusText: response.statusText,
+                      headers: responseHeaders,
+                      config: requestConfig
+                    });
+                  }
+                  queue.close();
+                  abortController.abort();
+                  return;
+                }
+
                 if (!settled) {
                   settled = true;
                   resolve({
                     data: session as unknown as TResData,
                     status: response.status,
                     statusText: response.statusText,
-                    headers: headersToObject(response.headers),
+                    headers: responseHeaders,
                     config: requestConfig
                   });
                 }
@@ -288,21 +302,40 @@ export function createEventSourceAdapter(config: EventSourceAdapterConfig = {}):
                 onMessage?.(msg);
               },
               onerror: (error) => {
-                queue.fail(error);
-                onError?.(error);
-                throw error;
+                const requestError = toRequestError(error, requestConfig);
+                queue.fail(requestError);
+                onError?.(requestError);
+                throw requestError;
               },
               onclose: () => {
                 queue.close();
                 onClose?.();
               }
             });
+
+            // 被取消时 fetchEventSource 正常返回：连接建立前以错误拒绝，建立后以 AbortError 结束 stream
+            if (externalSignal?.aborted) {
+              const abortError = createAbortError(externalSignal);
+              if (!settled) {
+                settled = true;
+                reject(abortError);
+              }
+              queue.fail(abortError);
+            } else if (!settled && timedOut) {
+              settled = true;
+              reject(new TimeoutError(requestConfig.timeout as number, { config: requestConfig }));
+            }
           } catch (err) {
+            const error = externalSignal?.aborted
+              ? createAbortError(externalSignal)
+              : timedOut
+                ? new TimeoutError(requestConfig.timeout as number, { config: requestConfig, cause: err })
+                : toRequestError(err, requestConfig);
             if (!settled) {
               settled = true;
-              reject(err);
+              reject(error);
             }
-            queue.fail(err);
+            queue.fail(error);
           } finally {
             queue.close();
             doneResolve?.();
@@ -4,7 +4,20 @@
  * 将原生 fetch API 适配为统一的 HttpAdapter 接口
  */
 
-import type { RequestConfig, ResponseData, HttpAdapter } from '../engine';
+import type {
+  BodyEncoder,
+  RequestConfig,
+  ResponseData,
+  ResponseDecoder,
+  HttpAdapter,
+  ParamsSerializer,
+  ValidateStatus,
+} from '../engine';
+import { throwIfAborted } from '../engine/abort';
+import { buildUrl } from '../engine/url';
+import { encodeBody } from '../engine/body';
+import { decodeBody, decodeErrorBody, hasResponseBody } from '../engine/decode';
+import { HttpError, TimeoutError, defaultValidateStatus, toRequestError } from '../engine/errors';
 
 /**
  * Fetch 适配器配置
@@ -16,6 +29,14 @@ export interface FetchAdapterConfig {
   defaultHeaders?: Record<string, string>;
   /** 自定义 fetch 实现（用于 Node.js 环境或测试）*/
   customFetch?: typeof fetch;
+  /** 状态码校验，请求配置中的 `validateStatus` 优先；默认仅 2xx 视为成功 */
+  validateStatus?: ValidateStatus;
+  /** query 参数序列化方式，请求配置中的 `paramsSerializer` 优先；默认数组重复键名、嵌套对象使用方括号 */
+  paramsSerializer?: ParamsSerializer;
+  /** 自定义请求体编码器，键为 MIME 类型（如 `application/x-msgpack`），按请求头的 Content-Type 选择（见 `encodeBody()`） */
+  bodyEncoders?: Record<string, BodyEncoder>;
+  /** 自定义响应体解码器，键为 MIME 类型（如 `text/csv`），按响应头的 Content-Type 选择（见 `decodeBody()`） */
+  responseDecoders?: Record<string, ResponseDecoder>;
   /** 请求和响应拦截器 */
   interceptors?: {
     /** 请求拦截器 */
@@ -25,34 +46,6 @@ export interface FetchAdapterConfig {
   };
 }
 
-/**
- * 构建完整 URL
- */
-function buildUrl(config: RequestConfig, baseURL?: string): string {
-  let url = config.url;
-
-  // 处理 baseURL
-  if (baseURL && !url.startsWith('http://') && !url.startsWith('https://')) {
-    url = baseURL.replace(/\/$/, '') + '/' + url.replace(/^\//, '');
-  }
-
-  // 处理 query params
-  if (config.params && Object.keys(config.params).length > 0) {
-    const searchParams = new URLSearchParams();
-    for (const [key, value] of Object.entries(config.params)) {
-      if (value !== undefined && value !== null) {
-        searchParams.append(key, String(value));
-      }
-    }
-    const queryString = searchParams.toString();
-    if (queryString) {
-      url += (url.includes('?') ? '&' : '?') + queryString;
-    }
-  }
-
-  return url;
-}
-
 /**
  * 将 Headers 对象转换为普通对象
  */
@@ -66,30 +59,48 @@ function headersToObject(headers: Headers): Record<string, string> {
 
 /**
  * 解析响应体
+ *
+ * HEAD 请求与 204 / 205 / 304 响应不读取响应体（data 为 undefined）；
+ * `blob` / `arraybuffer` / `stream` 直接读取，其余按 `responseType` 与 Content-Type 解码（见 `decodeBody()`）
  */
 async function parseResponseBody<T>(
   response: Response,
-  responseType?: string
+  headers: Record<string, string>,
+  config: RequestConfig,
+  decoders?: Record<string, ResponseDecoder>
 ): Promise<T> {
-  switch (responseType) {
-    case 'text':
-      return (await response.text()) as T;
+  if (!hasResponseBody(response.status, config.method)) {
+    return undefined as T;
+  }
+  switch (config.responseType) {
     case 'blob':
       return (await response.blob()) as T;
     case 'arraybuffer':
       return (await response.arrayBuffer()) as T;
-    case 'json':
+    case 'stream':
+      return response.body as T;
     default:
-      // 尝试解析 JSON，如果失败则返回原始文本
-      const text = await response.text();
-      try {
-        return JSON.parse(text) as T;
-      } catch {
-        return text as T;
-      }
+      return decodeBody(await response.text(), headers, {
+        responseType: config.responseType,
+        decoders,
+        config,
+        status: response.status,
+      }) as T;
   }
 }
 
+/**
+ * 解析错误响应的响应体：按 Content-Type 解码，失败时返回原始文本
+ */
+async function parseErrorBody(
+  response: Response,
+  headers: Record<string, string>,
+  decoders?: Record<string, ResponseDecoder>
+): Promise<unknown> {
+  const text = await response.text().catch(() => undefined);
+  return decodeErrorBody(text, headers, decoders);
+}
+
 /**
  * 创建 Fetch 适配器
  * 
@@ -105,7 +116,16 @@ async function parseResponseBody<T>(
  * ```
  */
 export function createFetchAdapter(config: FetchAdapterConfig = {}): HttpAdapter {
-  const { baseURL, defaultHeaders = {}, customFetch, interceptors } = config;
+  const {
+    baseURL,
+    defaultHeaders = {},
+    customFetch,
+    interceptors,
+    validateStatus = defaultValidateStatus,
+    paramsSerializer,
+    bodyEncoders,
+    responseDecoders,
+  } = config;
   const fetchFn = customFetch || fetch;
 
   return {
@@ -118,82 +138,92 @@ export function createFetchAdapter(config: FetchAdapterConfig = {}): HttpAdapter
         processedConfig = await interceptors.request(requestConfig);
       }
 
-      const url = buildUrl(processedConfig, processedConfig.baseURL || baseURL);
-
-      // 构建请求头
-      const headers: Record<string, string> = {
-        ...defaultHeaders,
-        ...processedConfig.headers,
-      };
+      const url = buildUrl(processedConfig, baseURL, paramsSerializer);
 
-      // 如果有 body 且没有设置 Content-Type，自动添加
-      if (processedConfig.data && !headers['Content-Type'] && !headers['content-type']) {
-        headers['Content-Type'] = 'application/json';
-      }
+      // 编码请求体：BodyInit 原样发送，其余按 Content-Type 编码（未设置时为 JSON）
+      const { body, headers } = encodeBody(
+        processedConfig.data,
+        { ...defaultHeaders, ...processedConfig.headers },
+        { encoders: bodyEncoders, paramsSerializer: processedConfig.paramsSerializer ?? paramsSerializer }
+      );
 
       // 构建 fetch 配置
-      const fetchConfig: RequestInit = {
+      const fetchConfig: RequestInit & { duplex?: 'half' } = {
         method: processedConfig.method,
         headers,
+        body,
       };
-
-      // 处理请求体
-      if (processedConfig.data !== undefined) {
-        if (
-          typeof processedConfig.data === 'object' &&
-          !(processedConfig.data instanceof FormData) &&
-          !(processedConfig.data instanceof Blob) &&
-          !(processedConfig.data instanceof ArrayBuffer)
-        ) {
-          fetchConfig.body = JSON.stringify(processedConfig.data);
-        } else {
-          fetchConfig.body = processedConfig.data as BodyInit;
-        }
+      // 以流作为请求体时 Node.js 的 fetch 要求声明 duplex
+      if (typeof ReadableStream !== 'undefined' && body instanceof ReadableStream) {
+        fetchConfig.duplex = 'half';
       }
 
-      // 处理超时
+      // 处理超时与取消：设置了超时时外部 signal 与超时共用一个 AbortController
+      const externalSignal = processedConfig.signal;
+      throwIfAborted(externalSignal);
+
       let timeoutId: ReturnType<typeof setTimeout> | undefined;
+      let timedOut = false;
       let abortController: AbortController | undefined;
+      const onExternalAbort = () => abortController?.abort();
 
       if (processedConfig.timeout && processedConfig.timeout > 0) {
         abortController = new AbortController();
         fetchConfig.signal = abortController.signal;
+        externalSignal?.addEventListener('abort', onExternalAbort, { once: true });
         timeoutId = setTimeout(() => {
+          timedOut = true;
           abortController?.abort();
         }, processedConfig.timeout);
+      } else if (externalSignal) {
+        fetchConfig.signal = externalSignal;
       }
 
+      let result: ResponseData<any>;
       try {
         const response = await fetchFn(url, fetchConfig);
-
-        // HTTP 错误状态码处理
-        if (!response.ok) {
-          const error = new Error(`HTTP Error: ${response.status} ${response.statusText}`);
-          (error as Error & { status: number }).status = response.status;
-          throw error;
+        const responseHeaders = headersToObject(response.headers);
+
+        // HTTP 错误状态码处理：未通过 validateStatus 的响应以 HttpError 拒绝（附带已解析的响应体）
+        if (!(processedConfig.validateStatus ?? validateStatus)(response.status)) {
+          throw new HttpError({
+            status: response.status,
+            statusText: response.statusText,
+            headers: responseHeaders,
+            body: await parseErrorBody(response, responseHeaders, responseDecoders),
+            config: processedConfig,
+          });
         }
 
-        const data = await parseResponseBody<TResData>(response, processedConfig.responseType);
+        const data = await parseResponseBody<TResData>(response, responseHeaders, processedConfig, responseDecoders);
 
-        let result: ResponseData<any> = {
+        result = {
           data,
           status: response.status,
           statusText: response.statusText,
-          headers: headersToObject(response.headers),
+          headers: responseHeaders,
           config: processedConfig as RequestConfig<TReqData>,
         };
-
-        // 应用响应拦截器
-        if (interceptors?.response) {
-          result = await interceptors.response(result);
+      } catch (error) {
+        // 外部取消统一转换为 AbortError，超时转换为 TimeoutError，其余未收到响应的失败视为网络错误
+        throwIfAborted(externalSignal);
+        if (timedOut) {
+          throw new TimeoutError(processedConfig.timeout as number, { config: processedConfig, cause: error });
         }
-
-        return result as ResponseData<TResData>;
+        throw toRequestError(error, processedConfig);
       } finally {
         if (timeoutId) {
           clearTimeout(timeoutId);
         }
+        externalSignal?.removeEventListener('abort', onExternalAbort);
       }
+
+      // 应用响应拦截器
+      if (interceptors?.response) {
+        result = await interceptors.response(result);
+      }
+
+      return result as ResponseData<TResData>;
     },
   };
 }
@@ -0,0 +1,158 @@
+/**
+ * 接口契约定义
+ *
+ * 根据 `{ method, path, query, body, response }` 描述生成类型完备的接口方法：
+ * 路径参数从 path 模式（`/users/:id`、可选参数 `:id?`）推导，query / body / 响应类型从对应的 schema 推导
+ */
+
+import type {
+  HttpContext,
+  HttpMethod,
+  IHttpClient,
+  InferValidated,
+  Middleware,
+  RequestConfig,
+  ResponseData,
+  ResponseSchema,
+  ResponseValidator,
+} from '../engine/middlewareTypes';
+import { mergeConfig } from './httpClient';
+
+/**
+ * 接口定义
+ */
+export interface EndpointDefinition<TState extends object = Record<string, unknown>> {
+  /** HTTP 方法 */
+  method: HttpMethod;
+  /** 路径模板，支持 `:param` 与可选参数 `:param?`（与 `route()` 相同） */
+  path: string;
+  /** query 参数类型来源（schema 或 `typed<T>()`），仅用于类型推导 */
+  query?: ResponseValidator;
+  /** 请求体类型来源（schema 或 `typed<T>()`），仅用于类型推导 */
+  body?: ResponseValidator;
+  /**
+   * 响应校验器：推导响应类型，并作为请求配置的 `validate` 传入
+   *
+   * 需要注册 `createValidationMiddleware()` 才会在运行时校验
+   */
+  response?: ResponseValidator;
+  /** 该接口专属的中间件，作为 `extraMiddlewares` 传入 */
+  middlewares?: readonly Middleware<HttpContext<any, any, TState>>[];
+  /** 该接口的默认请求配置（如 timeout），与调用时的 config 合并 */
+  defaults?: Partial<RequestConfig>;
+}
+
+/**
+ * 路径模式中的参数名（可选参数带 `?` 后缀）
+ */
+type PathParamKeys<P extends string> = P extends `${infer Head}/${infer Tail}`
+  ? PathParamKeys<Head> | PathParamKeys<Tail>
+  : P extends `:${infer Name}`
+    ? Name
+    : never;
+
+/**
+ * 从路径模式推导路径参数，如 `/users/:id/posts/:postId?` → `{ id: string | number; postId?: string | number }`
+ */
+export type PathParams<P extends string> = {
+  [K in PathParamKeys<P> as K extends `${string}?` ? never : K]: string | number;
+} & {
+  [K in PathParamKeys<P> as K extends `${infer Name}?` ? Name : never]?: string | number;
+};
+
+/**
+ * 接口方法的参数（path 没有参数时不接受 `params`）
+ */
+export type EndpointArgs<E extends EndpointDefinition<any>> =
+  (PathParamKeys<E['path']> extends never ? {} : { params: PathParams<E['path']> })
+  & (E extends { query: infer Q } ? { query: InferValidated<Q> } : { query?: Record<string, unknown> })
+  & (E extends { body: infer B } ? { body: InferValidated<B> } : { body?: unknown })
+  & { config?: Omit<RequestConfig, 'url' | 'method' | 'data'> };
+
+/**
+ * 接口的响应数据类型
+ */
+export type EndpointResponse<E extends EndpointDefinition<any>> = E extends { response: infer V }
+  ? InferValidated<V>
+  : unknown;
+
+/**
+ * 接口方法：没有必填参数时参数可省略
+ */
+export type EndpointMethod<E extends EndpointDefinition<any>> = {} extends EndpointArgs<E>
+  ? (args?: EndpointArgs<E>) => Promise<ResponseData<EndpointResponse<E>>>
+  : (args: EndpointArgs<E>) => Promise<ResponseData<EndpointResponse<E>>>;
+
+/**
+ * `defineApi()` 生成的接口对象
+ */
+export type ApiClient<E extends Record<string, EndpointDefinition<any>>> = {
+  [K in keyof E]: EndpointMethod<E[K]>;
+};
+
+/**
+ * 仅声明类型、不做校验的 schema（parse 原样返回输入）
+ *
+ * 用于没有运行时 schema 时声明 query / body / 响应类型
+ */
+export function typed<T>(): ResponseSchema<T> {
+  return { parse: (input) => input as T };
+}
+
+/**
+ * 根据接口定义生成类型完备的接口方法
+ *
+ * 请求配置按 `client.defaults` → 接口 `defaults` → 调用时 `config` 的顺序合并（headers、params 逐键合并），
+ * `query` 合并进 params，`params` 作为 `pathParams` 传入（由 adapter 展开，见 `buildUrl()`），
+ * 接口的 `middlewares` 作为 per-request 中间件执行
+ *
+ * 声明 `response` 只推导响应类型并作为 `validate` 传入，defineApi 本身不做校验：
+ * client 需要注册 `createValidationMiddleware()` 才会在运行时校验响应，否则响应数据原样返回
+ *
+ * @example
+ * ```ts
+ * const api = defineApi(client, {
+ *   getUser: { method: 'GET', path: '/users/:id', response: UserSchema },
+ *   createUser: { method: 'POST', path: '/users', body: typed<NewUser>(), response: UserSchema },
+ * });
+ *
+ * const { data } = await api.getUser({ params: { id: 1 } }); // data: User
+ * ```
+ */
+export function defineApi<
+  TState extends object,
+  const E extends Record<string, EndpointDefinition<TState>>
+>(client: IHttpClient<TState>, endpoints: E): ApiClient<E> {
+  const api: Record<string, (args?: EndpointArgs<EndpointDefinition<TState>>) => Promise<ResponseData>> = {};
+
+  for (const [name, endpoint] of Object.entries(endpoints)) {
+    const { method, path, response, middlewares, defaults = {} } = endpoint;
+
+    api[name] = async (args = {}) => {
+      const { params, query, body, config } = args as {
+        params?: Record<string, string | number>;
+        query?: Record<string, unknown>;
+        body?: unknown;
+        config?: Partial<RequestConfig>;
+      };
+
+      let merged = mergeConfig(defaults, { ...(response && { validate: response }), ...config });
+      if (query) {
+        merged = mergeConfig(merged, { params: query });
+      }
+
+      return client.request(
+        {
+          ...merged,
+          url: path,
+          ...(params && { pathParams: params }),
+          method,
+          ...(body !== undefined && { data: body }),
+        },
+        middlewares && [...middlewares]
+      );
+    };
+  }
+
+  return api as ApiClient<E>;
+}
@@ -6,26 +6,65 @@
 
 import {
   createMiddlewareEngine,
+  type ErrorHandler,
   type Middleware,
+  type MiddlewareDisposer,
+  type MiddlewareLike,
+  type RequireState,
+  type RequireStateChain,
+  type StatefulMiddleware,
+  type UseMiddlewareOptions,
   type HttpContext,
   type HttpClientOptions,
   type RequestConfig,
   type ResponseData,
   type IHttpClient,
 } from '../engine';
+import { toError, toRequestError } from '../engine/errors';
+import { createAbortError, raceAbort, throwIfAborted } from '../engine/abort';
+import { interpolatePath } from '../engine/url';
+import { createInterceptorList, createInterceptorMiddleware } from './interceptors';
 
 /**
  * 创建 HTTP 上下文
+ * 
+ * state 初始为空对象，声明的键由提供它们的中间件（见 `stateful()`）写入
  */
-function createHttpContext<TReqData = unknown, TResData = unknown>(
+function createHttpContext<TReqData = unknown, TResData = unknown, TState extends object = Record<string, unknown>>(
   config: RequestConfig<TReqData>
-): HttpContext<TReqData, TResData> {
+): HttpContext<TReqData, TResData, TState> {
   return {
     request: config,
     response: undefined,
     error: undefined,
-    state: {},
+    signal: config.signal,
+    state: {} as TState,
+  };
+}
+
+/**
+ * 合并请求配置：headers、params 逐键合并，其余字段后者覆盖前者
+ */
+export function mergeConfig<T extends Partial<RequestConfig>>(base: Partial<RequestConfig>, override: T): T {
+  const merged: Partial<RequestConfig> = {
+    ...base,
+    ...override,
+    headers: { ...base.headers, ...override.headers },
   };
+  if (base.params || override.params) {
+    merged.params = { ...base.params, ...override.params };
+  }
+  return merged as T;
+}
+
+/**
+ * 父 client 传给子 client 的实时继承信息（见 `client.extend()`）
+ */
+interface ClientInheritance<C> {
+  /** 父 client（及其祖先）的错误处理函数 */
+  errorHandlers(): ErrorHandler<C>[];
+  /** 父 client（或其祖先）是否已销毁 */
+  isDisposed(): boolean;
 }
 
 /**
@@ -46,54 +85,183 @@ function createHttpContext<TReqData = unknown, TResData = unknown>(
  * 
  * const response = await client.get('/users');
  * ```
+ * 
+ * 传入通过 `engine.with()` 累积了 state 契约的父引擎时，client 继承其 state 类型：
+ * 
+ * ```ts
+ * const engine = createMiddlewareEngine<HttpContext>().with(authMiddleware);
+ * const client = createHttpClient({ adapter, engine });
+ * 
+ * client.request(config, [async (ctx, next) => {
+ *   ctx.state.user; // User
+ *   await next();
+ * }]);
+ * ```
  */
-export function createHttpClient(options: HttpClientOptions): IHttpClient {
-  const { adapter, middlewares = [], defaults = {} } = options;
+export function createHttpClient<
+  TState extends object = Record<string, unknown>,
+  M extends readonly MiddlewareLike<HttpContext<unknown, unknown, TState>>[] | [] = MiddlewareLike<HttpContext<unknown, unknown, TState>>[],
+>(
+  options: HttpClientOptions<HttpContext<unknown, unknown, TState>, M> &
+    RequireStateChain<HttpContext<unknown, unknown, TState>, M>
+): IHttpClient<TState> {
+  return createClient(options);
+}
+
+function createClient<TState extends object>(
+  options: HttpClientOptions<HttpContext<unknown, unknown, TState>, readonly MiddlewareLike<HttpContext<unknown, unknown, TState>>[]>,
+  inheritance?: ClientInheritance<HttpContext<unknown, unknown, TState>>
+): IHttpClient<TState> {
+  type Ctx = HttpContext<unknown, unknown, TState>;
+
+  const { adapter, middlewares = [], defaults = {}, onError, engine: parentEngine } = options;
 
-  // 创建中间件引擎
-  const engine = createMiddlewareEngine<HttpContext>({
-    middlewares,
-  });
+  // axios 风格拦截器：合并为 transport-near 阶段最外层的中间件
+  // 子 client 的拦截器中间件不带注册名，位于继承的 `interceptors` 之内，避免链中出现重名的注册项
+  const requestInterceptors = createInterceptorList<RequestConfig>();
+  const responseInterceptors = createInterceptorList<ResponseData>();
+  const interceptorMiddleware = createInterceptorMiddleware<Ctx>(
+    requestInterceptors,
+    responseInterceptors,
+    inheritance ? undefined : 'interceptors'
+  );
+
+  // 创建中间件引擎：任一中间件抛错时都记录到 ctx.error
+  // 提供父引擎时基于其创建子引擎，实时继承父引擎的中间件（全局 → client 两级）
+  const engineOptions = {
+    middlewares: [interceptorMiddleware, ...middlewares],
+    captureError: (ctx: Ctx, error: Error) => {
+      ctx.error = error;
+    },
+  };
+  const engine = parentEngine
+    ? parentEngine.extend(engineOptions)
+    : createMiddlewareEngine<Ctx>(engineOptions);
+
+  // 客户端级错误处理函数
+  const errorHandlers: ErrorHandler<Ctx>[] = onError
+    ? (Array.isArray(onError) ? [...onError] : [onError])
+    : [];
+
+  /**
+   * 当前生效的错误处理函数：先父 client（实时继承），后自身
+   */
+  function collectErrorHandlers(): ErrorHandler<Ctx>[] {
+    return inheritance ? [...inheritance.errorHandlers(), ...errorHandlers] : errorHandlers;
+  }
+
+  /**
+   * 注册错误处理函数
+   */
+  function registerErrorHandler(handler: ErrorHandler<Ctx>): MiddlewareDisposer {
+    if (typeof handler !== 'function') {
+      throw new TypeError('Error handler must be a function');
+    }
+    errorHandlers.push(handler);
+
+    return () => {
+      const index = errorHandlers.indexOf(handler);
+      if (index !== -1) {
+        errorHandlers.splice(index, 1);
+      }
+    };
+  }
+
+  // dispose() 之后拒绝新的请求（父 client 销毁后同样拒绝）
+  let disposed = false;
+
+  function isDisposed(): boolean {
+    return disposed || (inheritance?.isDisposed() ?? false);
+  }
+
+  /**
+   * 销毁客户端：释放自身中间件持有的资源，父引擎不受影响
+   */
+  function dispose(): Promise<void> {
+    disposed = true;
+    return engine.dispose();
+  }
+
+  /**
+   * 错误边界：依次调用错误处理函数
+   * 
+   * 处理函数设置了新的 ctx.response 即视为恢复，否则继续抛出原错误
+   */
+  async function handleError(error: Error, ctx: Ctx): Promise<void> {
+    const failedResponse = ctx.response;
+
+    for (const handler of [...collectErrorHandlers()]) {
+      await handler(error, ctx);
+    }
+
+    if (ctx.response === undefined || ctx.response === failedResponse) {
+      throw error;
+    }
+    ctx.error = undefined;
+  }
 
   /**
    * 发送请求
    */
   async function request<TReqData = unknown, TResData = unknown>(
     config: RequestConfig<TReqData>,
-    extraMiddlewares?: Middleware<HttpContext<TReqData, TResData>>[]
+    extraMiddlewares?: Middleware<HttpContext<TReqData, TResData, TState>>[]
   ): Promise<ResponseData<TResData>> {
+    // 编程错误（与引擎销毁后 dispatch 相同），不属于 RequestError
+    if (isDisposed()) {
+      throw new Error('HTTP client has been disposed');
+    }
+
     // 合并默认配置
-    const mergedConfig = {
-      ...defaults,
-      ...config,
-      headers: {
-        ...(defaults.headers as Record<string, string>),
-        ...config.headers,
-      },
-    } as RequestConfig<TReqData>;
+    const mergedConfig = mergeConfig(defaults, config);
 
     // 创建上下文
-    const ctx = createHttpContext<TReqData, TResData>(mergedConfig);
+    const ctx = createHttpContext<TReqData, TResData, TState>(mergedConfig);
 
     // 创建 finalHandler - 实际发送请求
-    const finalHandler = async (): Promise<void> => {
+    // 使用链传入的上下文（分叉执行时为分叉出的上下文，见 `hedge()`）
+    // 中间件替换了 ctx.signal 时，把新的信号转发给 adapter
+    // adapter 抛出的非 RequestError（如自定义 adapter 的普通 Error）统一视为网络错误
+    const finalHandler = async (current: Ctx): Promise<void> => {
+      const { signal, request: currentRequest } = current;
+      // 提前展开路径模板：缺少路径参数属于调用错误，直接以 TypeError 拒绝，不视为网络错误
+      if (currentRequest.pathParams) {
+        interpolatePath(currentRequest.url, currentRequest.pathParams);
+      }
       try {
-        ctx.response = await adapter.request<TReqData, TResData>(ctx.request);
+        current.response = await adapter.request<TReqData, TResData>(
+          (signal && signal !== current.request.signal
+            ? { ...current.request, signal }
+            : current.request) as RequestConfig<TReqData>
+        );
       } catch (error) {
-        ctx.error = error instanceof Error ? error : new Error(String(error));
-        throw ctx.error;
+        throw toRequestError(error, current.request);
       }
     };
 
     // 执行中间件链
     // 注意：这里需要类型转换，因为 extraMiddlewares 的泛型参数可能更具体
-    await engine.dispatch(
-      ctx as HttpContext,
-      finalHandler,
-      extraMiddlewares as Middleware<HttpContext>[] | undefined
-    );
+    // 取消时立即以 AbortError 拒绝，不论当前执行到哪一层
+    const { signal } = mergedConfig;
+    try {
+      throwIfAborted(signal);
+      await raceAbort(
+        engine.dispatch(
+          ctx as Ctx,
+          finalHandler,
+          extraMiddlewares as Middleware<Ctx>[] | undefined
+        ),
+        signal
+      );
+    } catch (error) {
+      ctx.error = signal?.aborted ? createAbortError(signal) : toError(error);
+      if (collectErrorHandlers().length === 0) {
+        throw ctx.error;
+      }
+      await handleError(ctx.error, ctx as Ctx);
+    }
 
-    // 检查响应
+    // 检查响应：中间件既未调用 next() 也未设置 ctx.response，属于编程错误，不属于 RequestError
     if (!ctx.response) {
       throw new Error('No response received');
     }
@@ -101,7 +269,49 @@ export function createHttpClient(options: HttpClientOptions): IHttpClient {
     return ctx.response;
   }
 
-  return {
+  const client: IHttpClient<TState> = {
+    interceptors: {
+      request: requestInterceptors.manager,
+      response: responseInterceptors.manager,
+    },
+
+    onError: registerErrorHandler,
+
+    dispose,
+
+    extend(extendOptions = {}) {
+      return createClient<TState>(
+        {
+          adapter,
+          engine,
+          defaults: mergeConfig(defaults, extendOptions.defaults ?? {}),
+          middlewares: extendOptions.middlewares,
+          onError: extendOptions.onError,
+        },
+        { errorHandlers: collectErrorHandlers, isDisposed }
+      );
+    },
+
+    use(middleware, useOptions) {
+      return engine.use(middleware as MiddlewareLike<Ctx>, useOptions);
+    },
+
+    with<TRequires extends object, TProvides extends object>(
+      middleware: StatefulMiddleware<TRequires, TProvides, Ctx> & RequireState<Ctx, TRequires>,
+      useOptions?: UseMiddlewareOptions
+    ): IHttpClient<TState & TProvides> {
+      engine.use(middleware as MiddlewareLike<Ctx>, useOptions);
+      return client as unknown as IHttpClient<TState & TProvides>;
+    },
+
+    remove(target) {
+      return engine.remove(target);
+    },
+
+    getPipeline() {
+      return Object.freeze(engine.getPipeline().map((entry) => Object.freeze(entry)));
+    },
+
     request,
 
     get<TResData = unknown>(
@@ -165,4 +375,6 @@ export function createHttpClient(options: HttpClientOptions): IHttpClient {
       });
     },
   };
+
+  return client;
 }
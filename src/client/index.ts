@@ -3,3 +3,12 @@
  */
 
 export { createHttpClient } from './httpClient';
+export { defineApi, typed } from './defineApi';
+export type {
+  ApiClient,
+  EndpointArgs,
+  EndpointDefinition,
+  EndpointMethod,
+  EndpointResponse,
+  PathParams,
+} from './defineApi';
@@ -0,0 +1,107 @@
+/**
+ * axios 风格的拦截器
+ *
+ * 基于中间件引擎实现：client 的全部拦截器合并为一个位于 `transport-near` 阶段的中间件，
+ * 执行时读取当时已注册的拦截器。顶层 client 的拦截器中间件名为 `interceptors`；
+ * `client.extend()` 派生的子 client 继承父 client 的拦截器中间件，自身的拦截器中间件不带注册名，
+ * 因此每条链中只有一个 `interceptors`
+ */
+
+import type {
+  HttpContext,
+  InterceptorFulfilled,
+  InterceptorManager,
+  InterceptorRejected,
+  Middleware,
+  RequestConfig,
+  ResponseData,
+} from '../engine/middlewareTypes';
+import { defineMiddleware } from '../engine/middlewareMeta';
+import { toError } from '../engine/errors';
+
+interface InterceptorHandler<V> {
+  fulfilled?: InterceptorFulfilled<V>;
+  rejected?: InterceptorRejected<V>;
+}
+
+/**
+ * 拦截器列表：对外暴露的管理器 + 供中间件读取的快照
+ */
+export interface InterceptorList<V> {
+  manager: InterceptorManager<V>;
+  /** 当前已注册的拦截器（按注册顺序） */
+  handlers(): InterceptorHandler<V>[];
+}
+
+/**
+ * 创建拦截器列表
+ */
+export function createInterceptorList<V>(): InterceptorList<V> {
+  const handlers = new Map<number, InterceptorHandler<V>>();
+  let nextId = 0;
+
+  return {
+    manager: {
+      use(onFulfilled, onRejected) {
+        const id = nextId++;
+        handlers.set(id, {
+          fulfilled: onFulfilled ?? undefined,
+          rejected: onRejected ?? undefined,
+        });
+        return id;
+      },
+      eject(id) {
+        handlers.delete(id);
+      },
+      clear() {
+        handlers.clear();
+      },
+    },
+    handlers: () => [...handlers.values()],
+  };
+}
+
+/**
+ * 依次把拦截器挂到 Promise 链上（与 axios 相同：onRejected 处理前一步的失败）
+ */
+function runInterceptors<V>(initial: Promise<V>, handlers: InterceptorHandler<V>[]): Promise<V> {
+  let promise = initial;
+  for (const { fulfilled, rejected } of handlers) {
+    promise = promise.then(fulfilled, rejected && ((error: unknown) => rejected(toError(error))));
+  }
+  return promise;
+}
+
+/**
+ * 创建执行拦截器的中间件
+ *
+ * - 请求拦截器按注册的逆序执行，结果写回 ctx.request；失败时不发送请求
+ * - 响应拦截器按注册顺序执行，结果写回 ctx.response；
+ *   下游失败时交给 onRejected，返回响应即视为恢复（清除 ctx.error）
+ *
+ * @param name 注册名，不传时不带注册名（子 client 使用，见模块说明）
+ */
+export function createInterceptorMiddleware<C extends HttpContext<any, any, any>>(
+  request: InterceptorList<RequestConfig>,
+  response: InterceptorList<ResponseData>,
+  name?: string
+): Middleware<C> {
+  return defineMiddleware<C>(async (ctx, next) => {
+    // 本次请求开始时的快照，执行期间注册/移除的拦截器不影响本次请求
+    const requestHandlers = request.handlers().reverse();
+    const responseHandlers = response.handlers();
+
+    if (requestHandlers.length > 0) {
+      ctx.request = await runInterceptors(Promise.resolve(ctx.request), requestHandlers);
+    }
+
+    if (responseHandlers.length === 0) {
+      await next();
+      return;
+    }
+
+    const downstream = next().then(() => ctx.response as ResponseData);
+    ctx.response = await runInterceptors(downstream, responseHandlers);
+    ctx.error = undefined;
+  }, name === undefined ? { phase: 'transport-near' } : { name, phase: 'transport-near' });
+}
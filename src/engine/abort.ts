@@ -0,0 +1,76 @@
+/**
+ * 取消相关工具
+ *
+ * 供内置中间件与 adapter 在等待时响应 `AbortSignal`，并统一以 `AbortError` 拒绝
+ */
+
+import { AbortError } from './errors';
+
+/**
+ * 根据已取消的 signal 创建 AbortError（reason 本身是 AbortError 时直接复用）
+ */
+export function createAbortError(signal: AbortSignal): AbortError {
+  return signal.reason instanceof AbortError ? signal.reason : new AbortError(signal.reason);
+}
+
+/**
+ * signal 已取消时抛出 AbortError
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError(signal);
+  }
+}
+
+/**
+ * 等待指定时间，期间 signal 取消时以 AbortError 拒绝
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError(signal as AbortSignal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * signal 取消时立即以 AbortError 拒绝，不再等待原 Promise
+ *
+ * 原 Promise 之后的结果会被忽略（不会产生未处理的拒绝）
+ */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError(signal));
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,119 @@
+/**
+ * 请求体编码
+ *
+ * fetch / EventSource adapter 共用：`BodyInit`（字符串、FormData、Blob、ArrayBuffer / TypedArray / DataView、
+ * URLSearchParams、ReadableStream）原样发送，其余数据按 Content-Type 选择编码器
+ */
+
+import type { BodyEncoder, ParamsSerializer } from './middlewareTypes';
+import { serializeParams } from './url';
+
+/**
+ * `encodeBody()` 选项
+ */
+export interface EncodeBodyOptions {
+  /** 自定义编码器，键为 MIME 类型（如 `application/x-msgpack`），同名时覆盖内置编码器 */
+  encoders?: Record<string, BodyEncoder>;
+  /** `application/x-www-form-urlencoded` 的序列化方式，与 query 参数相同（见 `serializeParams()`） */
+  paramsSerializer?: ParamsSerializer;
+}
+
+/**
+ * 编码结果
+ */
+export interface EncodedBody {
+  /** 请求体，data 为 undefined 时为 undefined */
+  body?: BodyInit;
+  /** 补充或移除 Content-Type 后的请求头 */
+  headers: Record<string, string>;
+}
+
+/**
+ * 是否为 fetch 可直接发送的 `BodyInit`
+ */
+export function isBodyInit(data: unknown): data is BodyInit {
+  return (
+    typeof data === 'string' ||
+    data instanceof ArrayBuffer ||
+    ArrayBuffer.isView(data) ||
+    (typeof FormData !== 'undefined' && data instanceof FormData) ||
+    (typeof Blob !== 'undefined' && data instanceof Blob) ||
+    (typeof URLSearchParams !== 'undefined' && data instanceof URLSearchParams) ||
+    (typeof ReadableStream !== 'undefined' && data instanceof ReadableStream)
+  );
+}
+
+/**
+ * 查找请求头的实际键名（大小写不敏感）
+ */
+function findHeaderKey(headers: Record<string, string>, name: string): string | undefined {
+  const target = name.toLowerCase();
+  return Object.keys(headers).find((key) => key.toLowerCase() === target);
+}
+
+/**
+ * 把对象转为 FormData：Blob 作为文件、数组逐项追加、Date 转为 ISO 字符串、其余对象转为 JSON，跳过 undefined / null
+ */
+function toFormData(data: Record<string, unknown>): FormData {
+  const formData = new FormData();
+  const append = (key: string, value: unknown) => {
+    if (value === undefined || value === null) return;
+    if (value instanceof Blob) formData.append(key, value);
+    else if (value instanceof Date) formData.append(key, value.toISOString());
+    else if (typeof value === 'object') formData.append(key, JSON.stringify(value));
+    else formData.append(key, String(value));
+  };
+  for (const [key, value] of Object.entries(data)) {
+    if (Array.isArray(value)) value.forEach((item) => append(key, item));
+    else append(key, value);
+  }
+  return formData;
+}
+
+/**
+ * 根据 Content-Type 编码请求体
+ *
+ * - `BodyInit` 原样发送，不补充 Content-Type（由运行时根据 body 推断，如 FormData 的 boundary）
+ * - 未设置 Content-Type 时编码为 JSON，并补充 `Content-Type: application/json`
+ * - `application/json` 与 `+json` 后缀：`JSON.stringify`
+ * - `application/x-www-form-urlencoded`：按 `paramsSerializer` 序列化
+ * - `multipart/form-data`：转为 FormData，并移除 Content-Type 以便运行时补充 boundary
+ * - 其余类型使用 `encoders` 中注册的编码器，没有时编码为 JSON
+ *
+ * @example
+ * ```ts
+ * const { body, headers } = encodeBody(data, { 'Content-Type': 'application/x-msgpack' }, {
+ *   encoders: { 'application/x-msgpack': (data) => msgpack.encode(data) },
+ * });
+ * ```
+ */
+export function encodeBody(
+  data: unknown,
+  headers: Record<string, string>,
+  options: EncodeBodyOptions = {}
+): EncodedBody {
+  if (data === undefined || isBodyInit(data)) {
+    return { body: data, headers };
+  }
+
+  const contentTypeKey = findHeaderKey(headers, 'content-type');
+  if (!contentTypeKey) {
+    return { body: JSON.stringify(data), headers: { ...headers, 'Content-Type': 'application/json' } };
+  }
+
+  const contentType = headers[contentTypeKey];
+  const mimeType = contentType.split(';')[0].trim().toLowerCase();
+  const encoder = Object.entries(options.encoders ?? {}).find(([type]) => type.toLowerCase() === mimeType)?.[1];
+  if (encoder) {
+    return { body: encoder(data, contentType), headers };
+  }
+
+  if (mimeType === 'application/x-www-form-urlencoded') {
+    return { body: serializeParams(data as Record<string, unknown>, options.paramsSerializer), headers };
+  }
+  if (mimeType === 'multipart/form-data') {
+    const { [contentTypeKey]: _contentType, ...rest } = headers;
+    return { body: toFormData(data as Record<string, unknown>), headers: rest };
+  }
+  return { body: JSON.stringify(data), headers };
+}
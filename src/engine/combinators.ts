@@ -0,0 +1,237 @@
+/**
+ * 条件中间件组合器
+ *
+ * 基于 `Middleware<C>` 构建，不依赖具体的上下文结构：
+ * - `when` / `unless`：条件成立（不成立）时执行中间件，否则直接 `next()`
+ * - `branch`：根据条件在两个中间件之间二选一
+ * - `route`：按 HTTP 方法与路径匹配，解析出的路径参数写入 `ctx.state.params`
+ *
+ * `when` / `unless` / `route` 会继承被包装中间件的元信息（名称、阶段、排序约束）
+ */
+
+import type { Middleware, PathParamValue } from './middlewareTypes';
+import { defineMiddleware, getMiddlewareMeta } from './middlewareMeta';
+import { interpolatePath } from './url';
+
+/**
+ * 条件判断函数
+ */
+export type MiddlewarePredicate<C = Record<string, unknown>> = (ctx: C) => boolean | Promise<boolean>;
+
+/**
+ * 路由匹配所需的最小上下文结构（`HttpContext` 天然满足）
+ */
+export interface RouteContext {
+  request: {
+    url: string;
+    method: string;
+    /** 路径参数，匹配前先展开 url 中的路径模板 */
+    pathParams?: Record<string, PathParamValue | null | undefined>;
+  };
+  state: Record<string, unknown>;
+}
+
+/**
+ * 路由匹配规则
+ */
+export interface RouteMatcher {
+  /** HTTP 方法（大小写不敏感），省略时匹配任意方法 */
+  method?: string | string[];
+  /**
+   * 路径模式，省略时匹配任意路径
+   *
+   * 字符串模式支持 `:param`、可选参数 `:param?` 与末尾通配符 `*`，
+   * 例如 `/users/:id`、`/files/*`
+   */
+  path?: string | RegExp;
+}
+
+/**
+ * 路径参数
+ */
+export type RouteParams = Record<string, string>;
+
+function assertMiddleware(middleware: unknown): void {
+  if (typeof middleware !== 'function') {
+    throw new TypeError('Middleware must be a function');
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 将路径模式编译为正则与参数名列表
+ */
+function compilePath(pattern: string): { regexp: RegExp; keys: string[] } {
+  const keys: string[] = [];
+  const segments = pattern.replace(/^\/+|\/+$/g, '').split('/').filter(Boolean);
+
+  let source = '';
+  for (const segment of segments) {
+    if (segment === '*') {
+      source += '(?:/.*)?';
+      continue;
+    }
+    const param = /^:(\w+)(\?)?$/.exec(segment);
+    if (param) {
+      keys.push(param[1]);
+      source += param[2] ? '(?:/([^/]+))?' : '/([^/]+)';
+      continue;
+    }
+    source += '/' + escapeRegExp(segment);
+  }
+
+  return { regexp: new RegExp(`^${source}/?$`), keys };
+}
+
+/**
+ * 从请求 URL 中提取路径部分（去除协议/主机、query 与 hash）
+ */
+function extractPathname(url: string): string {
+  const pathname = url
+    .replace(/^[a-z][a-z\d+\-.]*:\/\/[^/]*/i, '')
+    .replace(/^\/\/[^/]*/, '')
+    .split(/[?#]/)[0];
+  return pathname.startsWith('/') ? pathname : '/' + pathname;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * 创建路由匹配函数
+ *
+ * @returns 匹配成功时返回路径参数，否则返回 undefined
+ */
+function createRouteMatch(matcher: RouteMatcher): (ctx: RouteContext) => RouteParams | undefined {
+  const methods = matcher.method === undefined
+    ? undefined
+    : (Array.isArray(matcher.method) ? matcher.method : [matcher.method]).map((m) => m.toUpperCase());
+
+  const compiled = typeof matcher.path === 'string' ? compilePath(matcher.path) : undefined;
+
+  return (ctx) => {
+    if (methods && !methods.includes(String(ctx.request.method).toUpperCase())) {
+      return undefined;
+    }
+    if (matcher.path === undefined) {
+      return {};
+    }
+
+    const { url, pathParams } = ctx.request;
+    const pathname = extractPathname(pathParams ? interpolatePath(url, pathParams) : url);
+
+    if (matcher.path instanceof RegExp) {
+      const match = matcher.path.exec(pathname);
+      if (!match) return undefined;
+      const params: RouteParams = {};
+      for (const [key, value] of Object.entries(match.groups ?? {})) {
+        if (value !== undefined) params[key] = safeDecode(value);
+      }
+      return params;
+    }
+
+    const match = compiled!.regexp.exec(pathname);
+    if (!match) return undefined;
+    const params: RouteParams = {};
+    compiled!.keys.forEach((key, index) => {
+      const value = match[index + 1];
+      if (value !== undefined) params[key] = safeDecode(value);
+    });
+    return params;
+  };
+}
+
+/**
+ * 条件成立时执行中间件，否则直接进入下一个中间件
+ *
+ * @example
+ * ```ts
+ * engine.use(when((ctx) => ctx.request.url.startsWith('/admin'), adminAuthMiddleware));
+ * ```
+ */
+export function when<C = Record<string, unknown>, R = void>(
+  predicate: MiddlewarePredicate<C>,
+  middleware: Middleware<C, R>
+): Middleware<C, R> {
+  assertMiddleware(middleware);
+  return defineMiddleware<C, R>(async (ctx, next) => {
+    if (await predicate(ctx)) {
+      return middleware(ctx, next);
+    }
+    return next();
+  }, getMiddlewareMeta(middleware));
+}
+
+/**
+ * 条件不成立时执行中间件，否则直接进入下一个中间件
+ *
+ * @example
+ * ```ts
+ * engine.use(unless((ctx) => ctx.request.url === '/login', authMiddleware));
+ * ```
+ */
+export function unless<C = Record<string, unknown>, R = void>(
+  predicate: MiddlewarePredicate<C>,
+  middleware: Middleware<C, R>
+): Middleware<C, R> {
+  return when<C, R>(async (ctx) => !(await predicate(ctx)), middleware);
+}
+
+/**
+ * 根据条件在两个中间件之间二选一
+ *
+ * @example
+ * ```ts
+ * engine.use(branch((ctx) => ctx.state.mock === true, mockMiddleware, realMiddleware));
+ * ```
+ */
+export function branch<C = Record<string, unknown>, R = void>(
+  predicate: MiddlewarePredicate<C>,
+  whenTrue: Middleware<C, R>,
+  whenFalse: Middleware<C, R>
+): Middleware<C, R> {
+  assertMiddleware(whenTrue);
+  assertMiddleware(whenFalse);
+  return async (ctx, next) => {
+    const middleware = (await predicate(ctx)) ? whenTrue : whenFalse;
+    return middleware(ctx, next);
+  };
+}
+
+/**
+ * 按 HTTP 方法与路径匹配执行中间件
+ *
+ * 匹配成功时，解析出的路径参数会合并写入 `ctx.state.params`
+ *
+ * @example
+ * ```ts
+ * engine.use(route({ method: 'GET', path: '/users/:id' }, async (ctx, next) => {
+ *   const { id } = ctx.state.params as RouteParams;
+ *   await next();
+ * }));
+ * ```
+ */
+export function route<C extends RouteContext, R = void>(
+  matcher: RouteMatcher,
+  middleware: Middleware<C, R>
+): Middleware<C, R> {
+  assertMiddleware(middleware);
+  const match = createRouteMatch(matcher);
+
+  return defineMiddleware<C, R>(async (ctx, next) => {
+    const params = match(ctx);
+    if (!params) {
+      return next();
+    }
+    ctx.state.params = { ...(ctx.state.params as RouteParams | undefined), ...params };
+    return middleware(ctx, next);
+  }, getMiddlewareMeta(middleware));
+}
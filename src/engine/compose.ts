@@ -16,32 +16,42 @@
  *   ← middleware2 后置逻辑
  * ← middleware1 后置逻辑
  * ```
+ * 
+ * 结果传递（Koa-compose-with-return）：finalHandler 的返回值作为最内层结果，
+ * 每个中间件的 `next()` 解析为下游结果；中间件返回非 undefined 的值时替换本层结果，否则透传
+ * 
+ * 分叉执行：compose 传入的 next 额外接受一个上下文参数，传入与当前上下文不同的对象时，
+ * 以该对象独立地重新执行下游（包括 finalHandler），供 `hedge()` 等组合器并发执行下游
  */
 
-import type { Middleware, NextFunction } from './middlewareTypes';
+import type { ComposeOptions, Middleware } from './middlewareTypes';
+import { toError } from './errors';
+import { traceMiddleware, resolveMiddlewareName } from './instrumentation';
+import { diagnoseMiddleware, resolveDiagnostics } from './diagnostics';
+import type { ForkableNext } from './fork';
 
 /**
- * 组合中间件数组为单一执行函数
- * 
- * @template C - 上下文类型
- * @param middlewares - 中间件数组
- * @param finalHandler - 可选的最终处理函数
- * @returns 组合后的执行函数
- * 
- * @example
- * ```ts
- * const composed = composeMiddlewares(
- *   [loggerMiddleware, authMiddleware],
- *   () => adapter.request(ctx.request)
- * );
- * await composed(ctx);
- * ```
+ * 已编译的中间件链
+ *
+ * finalHandler 在每次执行时传入，因此同一条链可以被重复使用；
+ * finalHandler 接收本次执行的上下文（分叉执行时为分叉出的上下文）
  */
-export function composeMiddlewares<C = Record<string, unknown>>(
-  middlewares: Middleware<C>[],
-  finalHandler?: () => Promise<void>
-): (ctx: C) => Promise<void> {
-  // 验证中间件数组
+export type CompiledChain<C, R = void> = (ctx: C, finalHandler?: (ctx: C) => Promise<R>) => Promise<R>;
+
+/**
+ * 编译配置（引擎内部使用）
+ */
+export interface CompileOptions<C> extends ComposeOptions<C> {
+  /** 与中间件一一对应的注册名，用于追踪事件 */
+  names?: (string | undefined)[];
+  /** 追踪事件中 index 的起始偏移（per-request 链叠加在全局链之内时使用） */
+  indexOffset?: number;
+}
+
+/**
+ * 校验中间件数组
+ */
+function validateMiddlewares(middlewares: unknown): void {
   if (!Array.isArray(middlewares)) {
     throw new TypeError('Middlewares must be an array');
   }
@@ -51,41 +61,142 @@ export function composeMiddlewares<C = Record<string, unknown>>(
       throw new TypeError('Middleware must be a function');
     }
   }
+}
+
+/**
+ * 编译中间件数组为可重复执行的链
+ *
+ * 只在编译时校验一次，执行时不再重复校验；中间件数组会被复制，
+ * 编译后对原数组的修改不影响已编译的链
+ *
+ * @template C - 上下文类型
+ * @param middlewares - 中间件数组
+ * @param options - 可选配置（错误捕获、追踪钩子、诊断模式等）
+ * @returns 已编译的中间件链
+ */
+export function compileMiddlewares<C = Record<string, unknown>, R = void>(
+  middlewares: Middleware<C, R>[],
+  options: CompileOptions<C> = {}
+): CompiledChain<C, R> {
+  validateMiddlewares(middlewares);
+
+  const { captureError, instrument, names = [], indexOffset = 0 } = options;
+  const diagnostics = resolveDiagnostics(options.diagnostics);
 
-  return async function composed(ctx: C): Promise<void> {
+  // 仅在启用追踪/诊断时包装中间件，否则直接使用原函数
+  const chain = instrument || diagnostics
+    ? middlewares.map((middleware, index) => {
+        const position = index + indexOffset;
+        const name = resolveMiddlewareName(middleware, position, names[index]);
+        let wrapped = middleware;
+        if (diagnostics) wrapped = diagnoseMiddleware(wrapped, name, position, diagnostics);
+        if (instrument) wrapped = traceMiddleware(wrapped, name, position, instrument);
+        return wrapped;
+      })
+    : [...middlewares];
+
+  // 错误捕获：记录后继续向外传播
+  const capture = captureError
+    ? (ctx: C) => (error: unknown): never => {
+        captureError(ctx, toError(error));
+        throw error;
+      }
+    : undefined;
+
+  /**
+   * 从 start 开始执行链；分叉执行时以新的上下文从分叉点之后重新开始
+   */
+  function run(ctx: C, finalHandler: ((ctx: C) => Promise<R>) | undefined, start: number): Promise<R> {
     // 用于检测 next() 是否被重复调用
     let currentIndex = -1;
+    // 最近一次得到的下游结果（中间件返回 undefined 时透传）
+    let downstream: R | undefined;
+    const onError = capture?.(ctx);
+    const keep = (value: R | void): R => {
+      if (value !== undefined) {
+        downstream = value;
+      }
+      return downstream as R;
+    };
 
-    async function dispatch(index: number): Promise<void> {
+    // 不使用 async 函数，避免每一层额外的 Promise 包装开销
+    function dispatch(index: number): Promise<R> {
       // 检测 next() 被重复调用
       if (index <= currentIndex) {
-        throw new Error('next() called multiple times');
+        return Promise.reject(new Error('next() called multiple times'));
       }
       currentIndex = index;
 
-      // 获取当前中间件
-      const middleware = middlewares[index];
+      let result: Promise<R>;
+      try {
+        if (index === chain.length) {
+          // 所有中间件执行完毕，执行 finalHandler（如果存在）
+          result = finalHandler
+            ? Promise.resolve(finalHandler(ctx)).then(keep)
+            : Promise.resolve(downstream as R);
+        } else {
+          // 获取当前中间件
+          const middleware = chain[index];
+          if (!middleware) {
+            return Promise.resolve(downstream as R);
+          }
 
-      if (index === middlewares.length) {
-        // 所有中间件执行完毕，执行 finalHandler（如果存在）
-        if (finalHandler) {
-          await finalHandler();
+          // 创建 next 函数，调用下一个中间件；传入其他上下文时分叉执行下游
+          const next: ForkableNext<C, R> = (fork) =>
+            fork === undefined || fork === ctx ? dispatch(index + 1) : run(fork, finalHandler, index + 1);
+
+          // 执行当前中间件，返回 undefined 时透传下游结果
+          result = Promise.resolve(middleware(ctx, next)).then(keep);
         }
-        return;
+      } catch (error) {
+        result = Promise.reject(error);
       }
 
-      if (!middleware) {
-        return;
-      }
+      // 错误逐层向外传播时记录到上下文，保证外层中间件能看到
+      return onError ? result.catch(onError) : result;
+    }
 
-      // 创建 next 函数，调用下一个中间件
-      const next: NextFunction = () => dispatch(index + 1);
+    return dispatch(start);
+  }
 
-      // 执行当前中间件
-      await middleware(ctx, next);
-    }
+  return function compiled(ctx: C, finalHandler?: (ctx: C) => Promise<R>): Promise<R> {
+    return run(ctx, finalHandler, 0);
+  };
+}
+
+/**
+ * 组合中间件数组为单一执行函数
+ * 
+ * @template C - 上下文类型
+ * @param middlewares - 中间件数组
+ * @param finalHandler - 可选的最终处理函数，接收本次执行的上下文
+ * @param options - 可选配置（错误捕获、追踪钩子、诊断模式等）
+ * @returns 组合后的执行函数，解析为链的结果
+ * 
+ * @example
+ * ```ts
+ * const composed = composeMiddlewares(
+ *   [loggerMiddleware, authMiddleware],
+ *   () => adapter.request(ctx.request)
+ * );
+ * await composed(ctx);
+ * 
+ * // 有返回值的链
+ * const handle = composeMiddlewares<Command, number>(
+ *   [async (cmd, next) => (await next()) + 1],
+ *   async () => 41
+ * );
+ * await handle(command); // 42
+ * ```
+ */
+export function composeMiddlewares<C = Record<string, unknown>, R = void>(
+  middlewares: Middleware<C, R>[],
+  finalHandler?: (ctx: C) => Promise<R>,
+  options: ComposeOptions<C> = {}
+): (ctx: C) => Promise<R> {
+  const compiled = compileMiddlewares<C, R>(middlewares, options);
 
-    // 从第一个中间件开始执行
-    await dispatch(0);
+  return function composed(ctx: C): Promise<R> {
+    return compiled(ctx, finalHandler);
   };
 }
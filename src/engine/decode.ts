@@ -0,0 +1,122 @@
+/**
+ * 响应体解码
+ *
+ * fetch / EventSource / axios adapter 共用：按 `responseType` 与响应头的 Content-Type 把响应文本解码为 data
+ */
+
+import type { RequestConfig, ResponseDecoder } from './middlewareTypes';
+import { ParseError } from './errors';
+
+/**
+ * `decodeBody()` 选项
+ */
+export interface DecodeBodyOptions {
+  /** 请求配置中的 `responseType`：`text` 原样返回，`json` 忽略 Content-Type 按 JSON 解析 */
+  responseType?: RequestConfig['responseType'];
+  /** 自定义解码器，键为 MIME 类型（如 `text/csv`），同名时覆盖内置解码器 */
+  decoders?: Record<string, ResponseDecoder>;
+  /** JSON 解析函数（用于 JSON、NDJSON 与未声明 Content-Type 的响应），默认 `JSON.parse` */
+  parseJson?: (text: string) => unknown;
+  /** 解码失败时附加到 `ParseError` 的请求配置 */
+  config?: RequestConfig;
+  /** 解码失败时附加到 `ParseError` 的状态码 */
+  status?: number;
+}
+
+/**
+ * NDJSON（每行一个 JSON）的 MIME 类型
+ */
+const NDJSON_MIME_TYPES = ['application/x-ndjson', 'application/ndjson', 'application/jsonl', 'application/jsonlines'];
+
+/**
+ * 响应头中的 Content-Type（不区分大小写）
+ */
+function getContentType(headers: Record<string, string>): string {
+  const entry = Object.entries(headers).find(([key]) => key.toLowerCase() === 'content-type');
+  return entry?.[1] ?? '';
+}
+
+/**
+ * 响应是否带有响应体：HEAD 请求与 204 / 205 / 304 响应没有响应体
+ */
+export function hasResponseBody(status: number, method?: string): boolean {
+  return method?.toUpperCase() !== 'HEAD' && status !== 204 && status !== 205 && status !== 304;
+}
+
+/**
+ * 解码响应文本
+ *
+ * - `responseType: 'text'`：原样返回
+ * - `responseType: 'json'`：按 JSON 解析
+ * - `decoders` 中注册的 MIME 类型：使用对应的解码器
+ * - `application/json` 与 `+json` 后缀（如 `application/vnd.api+json`）：按 JSON 解析
+ * - `application/x-ndjson` 等：逐行按 JSON 解析为数组
+ * - 其余声明了 Content-Type 的响应（`text/*`、`application/xml`、`text/csv` 等）：返回文本
+ * - 未声明 Content-Type：尝试按 JSON 解析，失败时返回文本
+ *
+ * 空响应体按 JSON 解析时为 undefined，按 NDJSON 解析时为空数组；解析失败时抛出 `ParseError`
+ *
+ * @example
+ * ```ts
+ * decodeBody('a,b\n1,2', { 'content-type': 'text/csv' }, { decoders: { 'text/csv': parseCsv } });
+ * ```
+ */
+export function decodeBody(text: string, headers: Record<string, string>, options: DecodeBodyOptions = {}): unknown {
+  const { responseType, decoders = {}, parseJson: parseJsonText = JSON.parse, config, status } = options;
+  if (responseType === 'text') {
+    return text;
+  }
+
+  const contentType = getContentType(headers);
+  const mimeType = contentType.split(';')[0].trim().toLowerCase();
+  const parse = (format: string, decode: () => unknown) => {
+    try {
+      return decode();
+    } catch (error) {
+      throw new ParseError(`Failed to parse response body as ${format}`, { config, cause: error, status, body: text });
+    }
+  };
+  const parseJson = () => (text ? parse('JSON', () => parseJsonText(text)) : undefined);
+
+  if (responseType === 'json') {
+    return parseJson();
+  }
+
+  const decoder = Object.entries(decoders).find(([type]) => type.toLowerCase() === mimeType)?.[1];
+  if (decoder) {
+    return parse(mimeType, () => decoder(text, contentType));
+  }
+  if (mimeType === 'application/json' || mimeType.endsWith('+json')) {
+    return parseJson();
+  }
+  if (NDJSON_MIME_TYPES.includes(mimeType)) {
+    return parse('NDJSON', () =>
+      text.split(/\r?\n/).filter((line) => line.trim() !== '').map((line) => parseJsonText(line))
+    );
+  }
+  if (mimeType) {
+    return text;
+  }
+
+  try {
+    return text ? parseJsonText(text) : text;
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * 解码错误响应的响应体：与 `decodeBody()` 相同，解码失败时返回原始文本
+ */
+export function decodeErrorBody(
+  text: string | undefined,
+  headers: Record<string, string>,
+  decoders?: Record<string, ResponseDecoder>
+): unknown {
+  if (!text) return text;
+  try {
+    return decodeBody(text, headers, { decoders });
+  } catch {
+    return text;
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * 中间件诊断
+ *
+ * 可选的开发期检查，默认关闭：
+ * - 中间件结束时其 next() 仍未完成（未 await 的 next）
+ * - 中间件结束之后才调用 next()
+ * - 中间件自身耗时超出预算（挂起或过慢），以 MiddlewareTimeoutError 结束本次执行
+ */
+
+import type {
+  Middleware,
+  MiddlewareDiagnostic,
+  MiddlewareDiagnosticsOptions,
+} from './middlewareTypes';
+import { MiddlewareTimeoutError } from './errors';
+import { now } from './instrumentation';
+import { forwardNext } from './fork';
+
+function defaultReporter(diagnostic: MiddlewareDiagnostic): void {
+  console.warn(`[request-middleware] ${diagnostic.message}`);
+}
+
+/**
+ * 规范化诊断配置
+ *
+ * @returns 未启用时返回 undefined
+ */
+export function resolveDiagnostics(
+  diagnostics?: boolean | MiddlewareDiagnosticsOptions
+): MiddlewareDiagnosticsOptions | undefined {
+  if (!diagnostics) {
+    return undefined;
+  }
+  return diagnostics === true ? {} : diagnostics;
+}
+
+/**
+ * 为单个中间件附加诊断
+ *
+ * 耗时预算只计算中间件自身的执行时间：调用 next() 时暂停计时，next() 完成后继续
+ *
+ * @returns 包装后的中间件
+ */
+export function diagnoseMiddleware<C, R>(
+  middleware: Middleware<C, R>,
+  name: string,
+  index: number,
+  options: MiddlewareDiagnosticsOptions
+): Middleware<C, R> {
+  const { timeout, onDiagnostic = defaultReporter } = options;
+  const hasBudget = timeout !== undefined && timeout > 0;
+
+  const report = (type: MiddlewareDiagnostic['type'], message: string) => {
+    onDiagnostic({ type, name, index, message });
+  };
+
+  return (ctx, next) => new Promise<R | void>((resolve, reject) => {
+    let settled = false;
+    let nextPending = false;
+    // 未完成的 next() 调用数（包括分叉执行），全部完成后才恢复计时
+    let pendingCalls = 0;
+    let remaining = timeout ?? 0;
+    let runningSince = 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const startBudget = () => {
+      if (!hasBudget || settled) return;
+      runningSince = now();
+      timer = setTimeout(() => {
+        settled = true;
+        timer = undefined;
+        reject(new MiddlewareTimeoutError(name, index, timeout!));
+      }, Math.max(remaining, 0));
+    };
+
+    const pauseBudget = () => {
+      if (timer === undefined) return;
+      clearTimeout(timer);
+      timer = undefined;
+      remaining -= now() - runningSince;
+    };
+
+    const checkedNext = (fork?: C) => {
+      if (settled) {
+        report('late-next', `next() called after middleware "${name}" (#${index}) completed; the call is ignored`);
+        return Promise.resolve(undefined as R);
+      }
+
+      // 分叉执行的下游可能在中间件结束后才完成（如 hedge 中被取消的尝试），不视为未 await
+      const forked = fork !== undefined && fork !== ctx;
+      pauseBudget();
+      pendingCalls++;
+      if (!forked) nextPending = true;
+      const onSettled = () => {
+        pendingCalls--;
+        if (!forked) nextPending = false;
+        if (pendingCalls === 0) startBudget();
+      };
+      return forwardNext(next, fork).then((value) => {
+        onSettled();
+        return value;
+      }, (error) => {
+        onSettled();
+        throw error;
+      });
+    };
+
+    const finish = () => {
+      settled = true;
+      pauseBudget();
+      if (nextPending) {
+        report('floating-next', `Middleware "${name}" (#${index}) completed before its next() settled; did you forget to await next()?`);
+      }
+    };
+
+    startBudget();
+
+    let result: Promise<R | void>;
+    try {
+      result = Promise.resolve(middleware(ctx, checkedNext));
+    } catch (error) {
+      result = Promise.reject(error);
+    }
+
+    result.then(
+      (value) => {
+        if (settled) return;
+        finish();
+        resolve(value);
+      },
+      (error) => {
+        if (settled) return;
+        finish();
+        reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,317 @@
+/**
+ * 错误相关工具
+ *
+ * 请求失败时 adapter 与 client 统一抛出 `RequestError` 的子类：
+ * `HttpError`（非 2xx 响应）、`TimeoutError`、`NetworkError`、`AbortError`、`ParseError`、
+ * `ResponseValidationError`（响应数据未通过校验）
+ */
+
+import type { RequestConfig, ResponseData } from './middlewareTypes';
+
+/**
+ * 将任意抛出值规范化为 Error
+ */
+export function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * 中间件超出耗时预算
+ *
+ * 诊断模式下，单个中间件自身耗时（不含等待 next() 的时间）超过预算时抛出
+ */
+export class MiddlewareTimeoutError extends Error {
+  /** 超时的中间件名称 */
+  readonly middlewareName: string;
+  /** 中间件在执行链中的位置 */
+  readonly index: number;
+  /** 耗时预算 (ms) */
+  readonly budget: number;
+
+  constructor(middlewareName: string, index: number, budget: number) {
+    super(`Middleware "${middlewareName}" (#${index}) exceeded its time budget of ${budget}ms`);
+    this.name = 'MiddlewareTimeoutError';
+    this.middlewareName = middlewareName;
+    this.index = index;
+    this.budget = budget;
+  }
+}
+
+/**
+ * RFC 9457 `application/problem+json` 响应体
+ *
+ * 除标准字段外，服务端定义的扩展字段原样保留
+ */
+export interface ProblemDetails {
+  /** 问题类型 URI，缺省为 `about:blank` */
+  type: string;
+  /** 问题类型的简短描述 */
+  title?: string;
+  /** HTTP 状态码 */
+  status?: number;
+  /** 本次问题的具体说明 */
+  detail?: string;
+  /** 本次问题发生位置的 URI */
+  instance?: string;
+  /** 扩展字段 */
+  [extension: string]: unknown;
+}
+
+/**
+ * 请求错误构造选项
+ */
+export interface RequestErrorOptions {
+  /** 失败请求的配置 */
+  config?: RequestConfig;
+  /** 底层错误 */
+  cause?: unknown;
+}
+
+/**
+ * 请求失败的基类
+ */
+export class RequestError extends Error {
+  /** 失败请求的配置（无法确定时为 undefined） */
+  readonly config?: RequestConfig;
+  /** 底层错误（如 fetch 抛出的 TypeError、AxiosError） */
+  readonly cause?: unknown;
+
+  constructor(message: string, options: RequestErrorOptions = {}) {
+    super(message);
+    this.name = 'RequestError';
+    this.config = options.config;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * 请求被取消
+ *
+ * 调用方通过 `AbortSignal`（`RequestConfig.signal` / `ctx.signal`）取消请求时，
+ * 无论当时执行到哪一层（中间件等待、adapter 请求中），都以该错误拒绝
+ */
+export class AbortError extends RequestError {
+  /** signal.reason（调用 `controller.abort(reason)` 时传入的值） */
+  readonly reason: unknown;
+
+  constructor(reason?: unknown, options?: RequestErrorOptions) {
+    super('The request was aborted', options);
+    this.name = 'AbortError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * HttpError 构造选项
+ */
+export interface HttpErrorOptions extends RequestErrorOptions {
+  status: number;
+  statusText?: string;
+  headers?: Record<string, string>;
+  /** 已解析的响应体（JSON 解析失败时为原始文本） */
+  body?: unknown;
+}
+
+/**
+ * 服务端返回了非 2xx 响应
+ *
+ * 响应为 `application/problem+json` 时，响应体解析为 `problem`，错误信息附带其 detail / title
+ */
+export class HttpError extends RequestError {
+  readonly status: number;
+  readonly statusText: string;
+  readonly headers: Record<string, string>;
+  readonly body: unknown;
+  /** RFC 9457 问题详情（响应不是 problem+json 时为 undefined） */
+  readonly problem?: ProblemDetails;
+
+  constructor(options: HttpErrorOptions) {
+    const { status, statusText = '', headers = {}, body } = options;
+    const problem = parseProblemDetails(body, headers);
+    const summary = problem?.detail ?? problem?.title;
+    super(`HTTP Error: ${status} ${statusText}${summary ? ` - ${summary}` : ''}`, options);
+    this.name = 'HttpError';
+    this.status = status;
+    this.statusText = statusText;
+    this.headers = headers;
+    this.body = body;
+    this.problem = problem;
+  }
+}
+
+/**
+ * 默认的状态码校验：仅 2xx 视为成功
+ */
+export function defaultValidateStatus(status: number): boolean {
+  return status >= 200 && status < 300;
+}
+
+/**
+ * 请求超出 `RequestConfig.timeout`
+ */
+export class TimeoutError extends RequestError {
+  /** 超时时间 (ms) */
+  readonly timeout: number;
+
+  constructor(timeout: number, options?: RequestErrorOptions) {
+    super(`Timeout of ${timeout}ms exceeded`, options);
+    this.name = 'TimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * 未收到响应（连接失败、DNS 错误、CORS 拒绝等）
+ *
+ * 错误信息沿用底层错误的信息
+ */
+export class NetworkError extends RequestError {
+  constructor(message = 'Network Error', options?: RequestErrorOptions) {
+    super(message, options);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * ParseError 构造选项
+ */
+export interface ParseErrorOptions extends RequestErrorOptions {
+  status?: number;
+  /** 解析失败的原始响应体 */
+  body?: string;
+}
+
+/**
+ * 响应体无法按预期格式解析
+ */
+export class ParseError extends RequestError {
+  readonly status?: number;
+  readonly body?: string;
+
+  constructor(message: string, options: ParseErrorOptions = {}) {
+    super(message, options);
+    this.name = 'ParseError';
+    this.status = options.status;
+    this.body = options.body;
+  }
+}
+
+/**
+ * ResponseValidationError 构造选项
+ */
+export interface ResponseValidationErrorOptions extends RequestErrorOptions {
+  /** 未通过校验的响应 */
+  response: ResponseData;
+  /** 校验失败的字段路径（根节点为空数组） */
+  path?: Array<string | number>;
+  /** 校验器报告的全部问题（如 zod 的 `issues`） */
+  issues?: unknown[];
+  /** 问题描述 */
+  reason?: string;
+}
+
+/**
+ * 响应数据未通过校验（见 `createValidationMiddleware()`）
+ */
+export class ResponseValidationError extends RequestError {
+  readonly response: ResponseData;
+  /** 校验失败的字段路径，如 `['items', 0, 'id']`；根节点为空数组 */
+  readonly path: Array<string | number>;
+  readonly issues: unknown[];
+
+  constructor(options: ResponseValidationErrorOptions) {
+    const { response, path = [], issues = [], reason } = options;
+    const location = path.length > 0 ? ` at "${path.join('.')}"` : '';
+    super(`Response validation failed${location}${reason ? `: ${reason}` : ''}`, {
+      config: options.config ?? response.config,
+      cause: options.cause,
+    });
+    this.name = 'ResponseValidationError';
+    this.response = response;
+    this.path = path;
+    this.issues = issues;
+  }
+}
+
+/**
+ * 按名称（不区分大小写）读取响应头
+ */
+function getHeader(headers: Record<string, string>, name: string): string | undefined {
+  const target = name.toLowerCase();
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === target) return value;
+  }
+  return undefined;
+}
+
+/**
+ * 解析 RFC 9457 问题详情
+ *
+ * 仅在响应为 `application/problem+json` 且响应体是对象时返回；缺少 type 时补为 `about:blank`
+ */
+export function parseProblemDetails(body: unknown, headers: Record<string, string>): ProblemDetails | undefined {
+  const contentType = getHeader(headers, 'content-type')?.split(';')[0].trim().toLowerCase();
+  if (contentType !== 'application/problem+json') return undefined;
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) return undefined;
+
+  const problem = { ...body } as ProblemDetails;
+  if (typeof problem.type !== 'string') problem.type = 'about:blank';
+  return problem;
+}
+
+/**
+ * 将 adapter 失败规范化为 `RequestError`：已是 `RequestError` 时原样返回，否则视为网络错误
+ */
+export function toRequestError(error: unknown, config?: RequestConfig): RequestError {
+  if (error instanceof RequestError) return error;
+  return new NetworkError(toError(error).message, { config, cause: error });
+}
+
+/**
+ * 是否为任一请求错误（`RequestError`）
+ */
+export function isRequestError(error: unknown): error is RequestError {
+  return error instanceof RequestError;
+}
+
+/**
+ * 是否为非 2xx 响应（`HttpError`）
+ */
+export function isHttpError(error: unknown): error is HttpError {
+  return error instanceof HttpError;
+}
+
+/**
+ * 是否为请求超时（`TimeoutError`）
+ */
+export function isTimeoutError(error: unknown): error is TimeoutError {
+  return error instanceof TimeoutError;
+}
+
+/**
+ * 是否为网络错误（`NetworkError`）
+ */
+export function isNetworkError(error: unknown): error is NetworkError {
+  return error instanceof NetworkError;
+}
+
+/**
+ * 是否为请求被取消（`AbortError`）
+ */
+export function isAbortError(error: unknown): error is AbortError {
+  return error instanceof AbortError;
+}
+
+/**
+ * 是否为响应体解析失败（`ParseError`）
+ */
+export function isParseError(error: unknown): error is ParseError {
+  return error instanceof ParseError;
+}
+
+/**
+ * 是否为响应校验失败（`ResponseValidationError`）
+ */
+export function isResponseValidationError(error: unknown): error is ResponseValidationError {
+  return error instanceof ResponseValidationError;
+}
@@ -0,0 +1,30 @@
+/**
+ * 分叉执行下游
+ *
+ * compose 传给中间件的 next 额外接受一个上下文参数：传入与当前上下文不同的对象时，
+ * 以该对象独立地重新执行下游（包括 finalHandler），不计入 next() 的重复调用检测。
+ * 公开的 `NextFunction` 不暴露该参数，由 `hedge()` 等组合器使用
+ */
+
+import type { NextFunction } from './middlewareTypes';
+
+/**
+ * compose 传给中间件的 next 的实际签名
+ */
+export type ForkableNext<C, R> = (fork?: C) => Promise<R>;
+
+/**
+ * 以指定上下文分叉执行 next 之后的下游
+ *
+ * 只对 compose / engine 传入的 next 有效；包装 next 的中间件需要用 `forwardNext()` 透传参数
+ */
+export function forkNext<C, R>(next: NextFunction<R>, ctx: C): Promise<R> {
+  return (next as ForkableNext<C, R>)(ctx);
+}
+
+/**
+ * 包装 next 时使用：调用方传入的分叉上下文原样透传给被包装的 next
+ */
+export function forwardNext<C, R>(next: NextFunction<R>, fork: C | undefined): Promise<R> {
+  return fork === undefined ? next() : (next as ForkableNext<C, R>)(fork);
+}
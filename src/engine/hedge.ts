@@ -0,0 +1,172 @@
+/**
+ * 对冲执行组合器
+ *
+ * 下游在 delay 内没有完成时，以克隆的上下文再次执行下游（包括 finalHandler），
+ * 取最先成功的一次；其余尝试通过各自的 `ctx.signal` 取消，胜出尝试的上下文合并回原上下文。
+ * delay 为 0 时同时发起全部尝试（竞速）
+ *
+ * 依赖 compose 的分叉执行（见 `forkNext()`），因此只能用在 compose / engine / client 的链中
+ */
+
+import type { Middleware } from './middlewareTypes';
+import { defineMiddleware } from './middlewareMeta';
+import { createAbortError } from './abort';
+import { forkNext } from './fork';
+
+/**
+ * 对冲执行所需的最小上下文结构（`HttpContext` 天然满足）
+ */
+export interface HedgeContext {
+  signal?: AbortSignal;
+}
+
+/**
+ * 对冲执行配置
+ */
+export interface HedgeOptions<C extends HedgeContext = HedgeContext> {
+  /** 上一次尝试发起后，等待多久 (ms) 仍未完成时发起下一次；为 0 时同时发起全部尝试 */
+  delay: number;
+  /** 最多尝试次数（含第一次），默认 2 */
+  attempts?: number;
+  /**
+   * 为每次尝试创建上下文，signal 为该次尝试专属的取消信号
+   *
+   * 默认浅拷贝顶层字段，并复制其中的普通对象（如 `request`、`state`）
+   */
+  clone?: (ctx: C, signal: AbortSignal) => C;
+  /**
+   * 把胜出尝试的上下文合并回原上下文
+   *
+   * 默认复制除 signal 以外的全部字段
+   */
+  merge?: (ctx: C, winner: C) => void;
+  /** 注册名（默认不命名，可以注册多个实例） */
+  name?: string;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function cloneContext<C extends HedgeContext>(ctx: C, signal: AbortSignal): C {
+  const copy = { ...ctx } as Record<string, unknown>;
+  for (const key of Object.keys(copy)) {
+    const value = copy[key];
+    if (isPlainObject(value)) {
+      copy[key] = { ...value };
+    }
+  }
+  copy.signal = signal;
+  return copy as C;
+}
+
+function mergeContext<C extends HedgeContext>(ctx: C, winner: C): void {
+  const target = ctx as Record<string, unknown>;
+  for (const [key, value] of Object.entries(winner)) {
+    if (key !== 'signal') {
+      target[key] = value;
+    }
+  }
+}
+
+/**
+ * 对冲执行下游
+ *
+ * - 任一尝试成功：取其结果，取消其余尝试
+ * - 某次尝试失败：立即发起下一次尝试（如果还有）；全部失败时以第一个错误拒绝
+ * - 原上下文的 signal 取消时：取消全部尝试并以 AbortError 拒绝
+ *
+ * @example
+ * ```ts
+ * // 200ms 内未响应时再发一次，取先返回的结果
+ * const client = createHttpClient({
+ *   adapter,
+ *   middlewares: [hedge<HttpContext>({ delay: 200 })],
+ * });
+ * ```
+ */
+export function hedge<C extends HedgeContext, R = void>(options: HedgeOptions<C>): Middleware<C, R> {
+  const { delay, attempts = 2, clone = cloneContext, merge = mergeContext, name } = options;
+
+  if (!Number.isInteger(attempts) || attempts < 1) {
+    throw new TypeError('Hedge attempts must be a positive integer');
+  }
+  if (!(delay >= 0)) {
+    throw new TypeError('Hedge delay must be a non-negative number');
+  }
+
+  return defineMiddleware<C, R>((ctx, next) => new Promise<R>((resolve, reject) => {
+    const { signal } = ctx;
+    if (signal?.aborted) {
+      reject(createAbortError(signal));
+      return;
+    }
+
+    const controllers: AbortController[] = [];
+    let settled = false;
+    let failures = 0;
+    let firstError: unknown;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    // 结束：取消除胜出者以外的全部尝试
+    const settle = (winner?: AbortController) => {
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      for (const controller of controllers) {
+        if (controller !== winner) {
+          controller.abort();
+        }
+      }
+    };
+
+    const onAbort = () => {
+      settle();
+      reject(createAbortError(signal as AbortSignal));
+    };
+
+    const launch = () => {
+      clearTimeout(timer);
+      timer = undefined;
+      if (settled || controllers.length >= attempts) return;
+
+      const controller = new AbortController();
+      controllers.push(controller);
+      const attempt = clone(ctx, controller.signal);
+
+      forkNext<C, R>(next, attempt).then(
+        (value) => {
+          if (settled) return;
+          settle(controller);
+          merge(ctx, attempt);
+          resolve(value);
+        },
+        (error) => {
+          if (settled) return;
+          if (failures === 0) firstError = error;
+          failures++;
+          if (failures === attempts) {
+            settle();
+            reject(firstError);
+            return;
+          }
+          // 失败时不再等待，立即发起下一次尝试
+          launch();
+        }
+      );
+
+      if (controllers.length < attempts) {
+        if (delay === 0) {
+          launch();
+        } else {
+          timer = setTimeout(launch, delay);
+        }
+      }
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    launch();
+  }), name === undefined ? {} : { name });
+}
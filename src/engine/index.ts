@@ -4,34 +4,131 @@
 
 export { MiddlewareEngine, createMiddlewareEngine } from './middlewareEngine';
 export { composeMiddlewares } from './compose';
+export { defineMiddleware, getMiddlewareMeta, MIDDLEWARE_PHASES } from './middlewareMeta';
+export { stateful } from './stateContract';
+export { when, unless, branch, route } from './combinators';
+export { hedge } from './hedge';
+export { buildUrl, interpolatePath, resolveUrl, serializeParams } from './url';
+export { encodeBody, isBodyInit } from './body';
+export { decodeBody, hasResponseBody } from './decode';
+export {
+  MiddlewareTimeoutError,
+  RequestError,
+  HttpError,
+  TimeoutError,
+  NetworkError,
+  AbortError,
+  ParseError,
+  ResponseValidationError,
+  isRequestError,
+  isHttpError,
+  isTimeoutError,
+  isNetworkError,
+  isAbortError,
+  isParseError,
+  isResponseValidationError,
+  parseProblemDetails,
+  defaultValidateStatus,
+} from './errors';
+export type { MiddlewarePredicate, RouteContext, RouteMatcher, RouteParams } from './combinators';
+export type { HedgeContext, HedgeOptions } from './hedge';
+export type { EncodeBodyOptions, EncodedBody } from './body';
+export type { DecodeBodyOptions } from './decode';
+export type {
+  ProblemDetails,
+  RequestErrorOptions,
+  HttpErrorOptions,
+  ParseErrorOptions,
+  ResponseValidationErrorOptions,
+} from './errors';
 
 // @isMrFan 新增中间件导出
-export { cacheMiddleware } from '../middlewares/cacheMiddleware';
+export { cacheMiddleware, createCacheMiddleware } from '../middlewares/cacheMiddleware';
 export { createRetryMiddleware } from '../middlewares/retryMiddleware';
 export { createThrottleMiddleware } from '../middlewares/throttleMiddleware';
+export { createValidationMiddleware } from '../middlewares/validationMiddleware';
+export {
+  createTransformMiddleware,
+  mapKeys,
+  camelCaseKeys,
+  snakeCaseKeys,
+  reviveDates,
+  parseJsonLossless,
+  stringifyJsonLossless,
+} from '../middlewares/transformMiddleware';
 
 // 新增中间件类型导出
+export type { CacheOptions } from '../middlewares/cacheMiddleware';
 export type { RetryOptions } from '../middlewares/retryMiddleware';
 export type { ThrottleOptions } from '../middlewares/throttleMiddleware';
+export type { ValidationOptions } from '../middlewares/validationMiddleware';
+export type {
+  TransformOptions,
+  Transformer,
+  TransformInfo,
+  KeyCaseOptions,
+  ReviveDatesOptions,
+} from '../middlewares/transformMiddleware';
 
 // 类型导出
 export type {
   // 基础类型
   NextFunction,
   Middleware,
+  MiddlewarePhase,
+  MiddlewareMeta,
+  MiddlewareObject,
+  MiddlewareLike,
+  ErrorHandler,
+  ComposeOptions,
+  MiddlewareEnterEvent,
+  MiddlewareExitEvent,
+  MiddlewareTraceEvent,
+  MiddlewareTraceHook,
+  MiddlewareDiagnostic,
+  MiddlewareDiagnosticsOptions,
+
+  // State 契约
+  StateContract,
+  StatefulMiddleware,
+  StateOf,
+  MissingStateKeys,
+  RequireState,
+  StateRequiresOf,
+  StateProvidesOf,
+  RequireStateChain,
 
   // Engine 相关
   MiddlewareEngineOptions,
   IMiddlewareEngine,
+  MiddlewareEntry,
+  UseMiddlewareOptions,
+  MiddlewareDisposer,
 
   // HTTP 相关默认类型
   HttpMethod,
   RequestConfig,
   ResponseData,
+  ValidateStatus,
+  ResponseSchema,
+  ResponseValidator,
+  InferValidated,
+  PathParamValue,
+  ArrayFormat,
+  ParamsSerializer,
+  ParamsSerializerOptions,
+  BodyEncoder,
+  ResponseDecoder,
+  ValidatedRequestConfig,
   HttpContext,
   HttpAdapter,
 
   // HTTP Client 相关
   HttpClientOptions,
   IHttpClient,
+  HttpClientExtendOptions,
+  HttpClientInterceptors,
+  InterceptorManager,
+  InterceptorFulfilled,
+  InterceptorRejected,
 } from './middlewareTypes';
@@ -0,0 +1,144 @@
+/**
+ * 中间件追踪与描述
+ *
+ * - 追踪：为每个中间件记录进入/退出、next() 前后耗时、是否短路、是否抛错
+ * - 描述：把解析后的中间件链格式化为可读文本
+ */
+
+import type {
+  Middleware,
+  MiddlewareEntry,
+  MiddlewareTraceEvent,
+  MiddlewareTraceHook,
+} from './middlewareTypes';
+import { getMiddlewareMeta } from './middlewareMeta';
+import { toError } from './errors';
+import { forwardNext } from './fork';
+
+/**
+ * 高精度时间戳 (ms)
+ */
+export const now: () => number =
+  typeof performance !== 'undefined' && typeof performance.now === 'function'
+    ? () => performance.now()
+    : () => Date.now();
+
+/**
+ * 解析中间件的展示名称
+ *
+ * 优先级：注册名 → 元信息名 → 函数名 → `<anonymous#index>`
+ */
+export function resolveMiddlewareName(
+  middleware: Middleware<any, any>,
+  index: number,
+  name?: string
+): string {
+  return name ?? getMiddlewareMeta(middleware).name ?? (middleware.name || `<anonymous#${index}>`);
+}
+
+function emit<C>(hook: MiddlewareTraceHook<C>, event: MiddlewareTraceEvent<C>): void {
+  try {
+    hook(event);
+  } catch {
+    // 追踪钩子不能影响中间件链的执行
+  }
+}
+
+/**
+ * 为单个中间件附加追踪
+ *
+ * @returns 包装后的中间件，执行时发出 enter / exit 事件
+ */
+export function traceMiddleware<C, R>(
+  middleware: Middleware<C, R>,
+  name: string,
+  index: number,
+  hook: MiddlewareTraceHook<C>
+): Middleware<C, R> {
+  return (ctx, next) => {
+    const start = now();
+    let nextCalledAt: number | undefined;
+    let nextSettledAt: number | undefined;
+
+    const settleNext = () => {
+      nextSettledAt = now();
+    };
+    const tracedNext = (fork?: C) => {
+      nextCalledAt ??= now();
+      return forwardNext(next, fork).then((value) => {
+        settleNext();
+        return value;
+      }, (error) => {
+        settleNext();
+        throw error;
+      });
+    };
+
+    const finish = (error?: unknown) => {
+      const end = now();
+      const calledAt = nextCalledAt ?? end;
+      const settledAt = nextCalledAt === undefined ? end : (nextSettledAt ?? end);
+      emit(hook, {
+        type: 'exit',
+        name,
+        index,
+        ctx,
+        beforeNext: calledAt - start,
+        afterNext: end - settledAt,
+        downstream: settledAt - calledAt,
+        shortCircuited: nextCalledAt === undefined,
+        threw: error !== undefined,
+        error: error === undefined ? undefined : toError(error),
+      });
+    };
+
+    emit(hook, { type: 'enter', name, index, ctx });
+
+    let result: Promise<R | void>;
+    try {
+      result = Promise.resolve(middleware(ctx, tracedNext));
+    } catch (error) {
+      result = Promise.reject(error);
+    }
+
+    return result.then(
+      (value) => {
+        finish();
+        return value;
+      },
+      (error) => {
+        finish(error ?? new Error('Middleware rejected without a reason'));
+        throw error;
+      }
+    );
+  };
+}
+
+/**
+ * 把解析后的中间件链格式化为可读文本
+ *
+ * @example
+ * ```
+ * 1. auth [phase: auth]
+ * 2. retry
+ * 3. audit [runsAfter: auth]
+ * ```
+ */
+export function describeChain<C, R>(entries: MiddlewareEntry<C, R>[]): string {
+  if (entries.length === 0) {
+    return '(empty)';
+  }
+
+  return entries
+    .map((entry, index) => {
+      const meta = getMiddlewareMeta(entry.middleware);
+      const details: string[] = [];
+      if (meta.phase) details.push(`phase: ${meta.phase}`);
+      if (meta.runsBefore?.length) details.push(`runsBefore: ${meta.runsBefore.join(', ')}`);
+      if (meta.runsAfter?.length) details.push(`runsAfter: ${meta.runsAfter.join(', ')}`);
+
+      const label = resolveMiddlewareName(entry.middleware, index, entry.name);
+      return `${index + 1}. ${label}${details.length ? ` [${details.join('; ')}]` : ''}`;
+    })
+    .join('\n');
+}
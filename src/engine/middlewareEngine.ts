@@ -2,19 +2,90 @@
  * 中间件引擎 - 核心实现
  * 
  * 职责：
- * - 管理中间件列表（全局）
- * - 按注册顺序执行中间件链
- * - 支持在 dispatch 时附加额外中间件
- * - 不关心 context 的具体结构
- * - 不做任何错误处理，交给上层 catchException 统一处理
+ * - 管理中间件列表（全局），支持具名注册、定位插入、移除与替换
+ * - 按注册顺序执行中间件链，声明了阶段/排序约束时做稳定拓扑排序
+ * - 支持在 dispatch 时附加额外中间件（与全局中间件合并后统一排序）
+ * - 全局中间件链只在注册/移除/替换后重新编译，per-request 中间件尽量叠加在已编译的链之内
+ * - 可选的追踪钩子（instrument）与诊断模式（diagnostics），未启用时不产生额外开销
+ * - 中间件生命周期：注册时调用 setup(engine)，engine.dispose() 时逆序调用 dispose()
+ * - 支持层级引擎：子引擎实时继承父引擎的中间件、错误处理函数与追踪钩子；
+ *   引擎本身也可以作为中间件挂载到其它中间件链中
+ * - 不关心 context 的具体结构（state 契约只存在于类型层面，见 `with()`）
+ * - 提供错误边界（catchException）：dispatch 失败时依次调用 onError 处理函数，
+ *   处理函数可上报、映射错误（抛出新错误），或在上层定义的恢复条件下吞掉错误
  */
 
 import type {
+  ErrorHandler,
   Middleware,
+  MiddlewareEntry,
+  MiddlewareDisposer,
+  MiddlewareLike,
+  UseMiddlewareOptions,
   MiddlewareEngineOptions,
+  MiddlewareTraceHook,
+  MiddlewareDiagnosticsOptions,
   IMiddlewareEngine,
+  RequireState,
+  StatefulMiddleware,
+  StateRequiresOf,
 } from './middlewareTypes';
-import { composeMiddlewares } from './compose';
+import { compileMiddlewares, type CompiledChain, type CompileOptions } from './compose';
+import { describeChain } from './instrumentation';
+import { toError } from './errors';
+import { getMiddlewareMeta, toMiddlewareFunction } from './middlewareMeta';
+import { createLayerCheck, findLayerIndex, hasOrderingConstraints, sortMiddlewares } from './ordering';
+
+/**
+ * 依次调用中间件的 dispose 钩子（同一钩子只调用一次）
+ * 
+ * 单个钩子失败不影响其它钩子，全部调用完毕后抛出第一个错误
+ */
+async function disposeMiddlewares(middlewares: Middleware<any, any>[]): Promise<void> {
+  const called = new Set<() => void | Promise<void>>();
+  const errors: unknown[] = [];
+
+  for (const middleware of middlewares) {
+    const { dispose } = getMiddlewareMeta(middleware);
+    if (!dispose || called.has(dispose)) {
+      continue;
+    }
+    called.add(dispose);
+    try {
+      await dispose();
+    } catch (error) {
+      errors.push(error);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw errors[0];
+  }
+}
+
+/**
+ * 已编译的全局中间件链
+ */
+interface CompiledGlobalChain<C, R> {
+  /** 编译时父引擎的已排序中间件（用于检测父引擎变更） */
+  inherited: MiddlewareEntry<C, R>[];
+  /** 继承 + 自身注册的中间件（排序前） */
+  base: MiddlewareEntry<C, R>[];
+  /** 排序后的全局中间件 */
+  entries: MiddlewareEntry<C, R>[];
+  /** 编译后的链 */
+  chain: CompiledChain<C, R>;
+  /** 判断 per-request 中间件能否直接叠加在该链之内 */
+  canLayer: (extraEntries: MiddlewareEntry<C, R>[]) => boolean;
+  /** per-request 中间件在 entries 中的插入位置（位于 `transport-near` 等内层阶段之外） */
+  layerIndex: number;
+  /** 插入位置之外的全局中间件编译后的链（插入位置为末尾时即 chain） */
+  outerChain: CompiledChain<C, R>;
+  /** 插入位置之内的全局中间件编译后的链，按 per-request 中间件数量缓存（追踪事件的 index 随之偏移） */
+  innerChains: Map<number, CompiledChain<C, R>>;
+}
+
+const NO_INHERITED: MiddlewareEntry<any, any>[] = [];
 
 /**
  * 中间件引擎类
@@ -28,67 +99,547 @@ import { composeMiddlewares } from './compose';
  * 
  * // 注册中间件
  * engine.use(loggerMiddleware);
- * engine.use(authMiddleware);
+ * const disposeAuth = engine.use(authMiddleware, { name: 'auth' });
+ * engine.insertBefore('auth', traceMiddleware, 'trace');
  * 
  * // 执行中间件链
  * const ctx: HttpContext = { request: config, state: {} };
  * await engine.dispatch(ctx, async () => {
  *   ctx.response = await adapter.request(ctx.request);
  * });
+ * 
+ * // 移除中间件
+ * disposeAuth();
+ * 
+ * // 子引擎：实时继承父引擎的中间件
+ * const child = engine.extend({ middlewares: [metricsMiddleware] });
  * ```
  */
-export class MiddlewareEngine<C = Record<string, unknown>> implements IMiddlewareEngine<C> {
-  private middlewares: Middleware<C>[] = [];
+export class MiddlewareEngine<C = Record<string, unknown>, R = void> implements IMiddlewareEngine<C, R> {
+  private entries: MiddlewareEntry<C, R>[] = [];
+  /** 已编译的全局中间件链，注册/移除/替换时失效 */
+  private compiled?: CompiledGlobalChain<C, R>;
+  private errorHandlers: ErrorHandler<C>[] = [];
+  private traceHooks: MiddlewareTraceHook<C>[] = [];
+  private readonly captureError?: (ctx: C, error: Error) => void;
+  private readonly isRecovered?: (ctx: C, error: Error) => boolean;
+  private readonly diagnostics?: boolean | MiddlewareDiagnosticsOptions;
+  /** 父引擎（通过 extend / fork 创建时存在） */
+  private parent?: MiddlewareEngine<C, R>;
+  /** dispose() 的结果，存在即表示已销毁 */
+  private disposing?: Promise<void>;
 
-  constructor(options?: MiddlewareEngineOptions<C>) {
+  constructor(options?: MiddlewareEngineOptions<C, R>) {
+    this.captureError = options?.captureError;
+    this.diagnostics = options?.diagnostics;
+    this.isRecovered = options?.isRecovered;
     if (options?.middlewares) {
-      this.middlewares = [...options.middlewares];
+      for (const middleware of options.middlewares) {
+        this.use(middleware);
+      }
+    }
+    if (options?.onError) {
+      const handlers = Array.isArray(options.onError) ? options.onError : [options.onError];
+      for (const handler of handlers) {
+        this.onError(handler);
+      }
+    }
+    if (options?.instrument) {
+      this.instrument(options.instrument);
     }
   }
 
   /**
    * 注册中间件
    * 
-   * @param middleware 中间件函数
+   * 注册完成后调用中间件的 setup 钩子，setup 抛错时撤销本次注册；
+   * state 契约的 requires 未被上下文类型满足时编译报错
+   * 
+   * @param middleware 中间件函数或对象形式的中间件
+   * @param options 注册名与插入位置（`before` / `after`）
+   * @returns 注销函数
+   * 
+   * @throws 注册名重复、锚点不存在或引擎已销毁时抛出
+   */
+  use<M extends MiddlewareLike<C, R>>(
+    middleware: M & RequireState<C, StateRequiresOf<M>>,
+    options?: UseMiddlewareOptions
+  ): MiddlewareDisposer;
+  use(middlewareLike: MiddlewareLike<C, R>, options: UseMiddlewareOptions = {}): MiddlewareDisposer {
+    this.assertActive();
+    const middleware = toMiddlewareFunction(middlewareLike);
+
+    const { name = getMiddlewareMeta(middleware).name, before, after } = options;
+    if (name !== undefined && this.indexOf(name) !== -1) {
+      throw new Error(`Middleware "${name}" is already registered`);
+    }
+
+    const entry: MiddlewareEntry<C, R> = { name, middleware };
+
+    if (before !== undefined) {
+      this.entries.splice(this.requireIndex(before), 0, entry);
+    } else if (after !== undefined) {
+      this.entries.splice(this.requireIndex(after) + 1, 0, entry);
+    } else {
+      this.entries.push(entry);
+    }
+    this.invalidate();
+
+    const disposer = () => {
+      const index = this.entries.indexOf(entry);
+      if (index !== -1) {
+        this.entries.splice(index, 1);
+        this.invalidate();
+      }
+    };
+
+    try {
+      getMiddlewareMeta(middleware).setup?.(this);
+    } catch (error) {
+      disposer();
+      throw error;
+    }
+    return disposer;
+  }
+
+  /**
+   * 注册声明了 state 契约的中间件
+   * 
+   * 运行时等价于 `use()`，返回同一个引擎实例，仅上下文类型累积了 provides
+   */
+  with<TRequires extends object = object, TProvides extends object = object>(
+    middleware: StatefulMiddleware<TRequires, TProvides, C, R> & RequireState<C, TRequires>,
+    options?: UseMiddlewareOptions
+  ): MiddlewareEngine<C & { state: TProvides }, R> {
+    this.use(middleware as MiddlewareLike<C, R>, options);
+    return this as unknown as MiddlewareEngine<C & { state: TProvides }, R>;
+  }
+
+  /**
+   * 在指定名称的中间件之前插入
+   */
+  insertBefore(anchor: string, middleware: MiddlewareLike<C, R>, name?: string): MiddlewareDisposer {
+    return this.use(middleware, { name, before: anchor });
+  }
+
+  /**
+   * 在指定名称的中间件之后插入
+   */
+  insertAfter(anchor: string, middleware: MiddlewareLike<C, R>, name?: string): MiddlewareDisposer {
+    return this.use(middleware, { name, after: anchor });
+  }
+
+  /**
+   * 移除中间件
+   * 
+   * 传入中间件时移除第一个匹配的注册项；不会调用中间件的 dispose 钩子
+   * 
+   * @param target 注册名或中间件本身
+   * @returns 是否移除成功
+   */
+  remove(target: string | MiddlewareLike<C, R>): boolean {
+    let index: number;
+    if (typeof target === 'string') {
+      index = this.indexOf(target);
+    } else {
+      const middleware = toMiddlewareFunction(target);
+      index = this.entries.findIndex((entry) => entry.middleware === middleware);
+    }
+
+    if (index === -1) {
+      return false;
+    }
+    this.entries.splice(index, 1);
+    this.invalidate();
+    return true;
+  }
+
+  /**
+   * 替换指定名称的中间件，位置与注册名保持不变
+   * 
+   * 新中间件的 setup 钩子抛错时恢复原中间件
+   * 
+   * @throws 指定名称不存在时抛出
+   */
+  replace(name: string, middlewareLike: MiddlewareLike<C, R>): void {
+    this.assertActive();
+    const middleware = toMiddlewareFunction(middlewareLike);
+    const index = this.requireIndex(name);
+    const previous = this.entries[index];
+    this.entries[index] = { name, middleware };
+    this.invalidate();
+
+    try {
+      getMiddlewareMeta(middleware).setup?.(this);
+    } catch (error) {
+      this.entries[index] = previous;
+      this.invalidate();
+      throw error;
+    }
+  }
+
+  /**
+   * 获取已注册的中间件列表（按注册位置）
+   * 
+   * 不包含继承自父引擎的中间件；主要用于调试和测试
+   */
+  getMiddlewares(): MiddlewareEntry<C, R>[] {
+    return this.entries.map((entry) => ({ ...entry }));
+  }
+
+  /**
+   * 获取解析后的中间件链（排序后的最终执行顺序，含继承自父引擎的中间件）
+   * 
+   * 返回的是快照：之后的注册/移除不影响已返回的数组
+   */
+  getPipeline(): MiddlewareEntry<C, R>[] {
+    return this.compile().entries.map((entry) => ({ ...entry }));
+  }
+
+  /**
+   * 注册错误处理函数
+   * 
+   * 多个处理函数按注册顺序执行；任一处理函数抛出错误时，以该错误替代原错误并停止后续处理
+   * 
+   * @param handler 错误处理函数
+   * @returns 注销函数
+   */
+  onError(handler: ErrorHandler<C>): MiddlewareDisposer {
+    if (typeof handler !== 'function') {
+      throw new TypeError('Error handler must be a function');
+    }
+    this.errorHandlers.push(handler);
+
+    return () => {
+      const index = this.errorHandlers.indexOf(handler);
+      if (index !== -1) {
+        this.errorHandlers.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * 注册追踪钩子
+   * 
+   * 每个中间件执行时发出 enter / exit 事件（名称、位置、next() 前后耗时、是否短路、是否抛错）
+   * 
+   * @param hook 追踪钩子
+   * @returns 注销函数
+   * 
+   * @example
+   * ```ts
+   * engine.instrument((event) => {
+   *   if (event.type === 'exit') {
+   *     console.log(event.name, event.beforeNext + event.afterNext, 'ms');
+   *   }
+   * });
+   * ```
+   */
+  instrument(hook: MiddlewareTraceHook<C>): MiddlewareDisposer {
+    if (typeof hook !== 'function') {
+      throw new TypeError('Trace hook must be a function');
+    }
+    this.traceHooks.push(hook);
+    this.invalidate();
+
+    return () => {
+      const index = this.traceHooks.indexOf(hook);
+      if (index !== -1) {
+        this.traceHooks.splice(index, 1);
+        this.invalidate();
+      }
+    };
+  }
+
+  /**
+   * 输出解析后的中间件链（排序后的最终执行顺序）
+   * 
+   * @param extraMiddlewares 可选的本次执行额外中间件
+   * @returns 每行一个中间件的文本描述
    */
-  use(middleware: Middleware<C>): void {
-    if (typeof middleware !== 'function') {
-      throw new TypeError('Middleware must be a function');
+  describe(extraMiddlewares?: Middleware<C, R>[]): string {
+    const compiled = this.compile();
+    if (!extraMiddlewares || extraMiddlewares.length === 0) {
+      return describeChain(compiled.entries);
     }
-    this.middlewares.push(middleware);
+
+    const extraEntries = this.toEntries(extraMiddlewares);
+    const { entries, layerIndex } = compiled;
+    return describeChain(
+      compiled.canLayer(extraEntries)
+        ? [...entries.slice(0, layerIndex), ...extraEntries, ...entries.slice(layerIndex)]
+        : sortMiddlewares([...compiled.base, ...extraEntries])
+    );
+  }
+
+  /**
+   * 创建子引擎
+   * 
+   * 子引擎实时继承父引擎的中间件（父引擎后续的注册/移除同样生效）、错误处理函数与追踪钩子；
+   * 父引擎的中间件位于子引擎自身中间件之外（声明了排序约束时统一排序）。
+   * 未在 options 中指定的 captureError / isRecovered / diagnostics 沿用父引擎的配置。
+   * 
+   * @param options 子引擎配置
+   * @returns 子引擎
+   * 
+   * @example
+   * ```ts
+   * const globalEngine = createMiddlewareEngine<HttpContext>({ middlewares: [authMiddleware] });
+   * const clientEngine = globalEngine.extend({ middlewares: [retryMiddleware] });
+   * ```
+   */
+  extend(options: MiddlewareEngineOptions<C, R> = {}): MiddlewareEngine<C, R> {
+    const { middlewares, ...rest } = options;
+    const child = new MiddlewareEngine<C, R>({
+      captureError: this.captureError,
+      isRecovered: this.isRecovered,
+      diagnostics: this.diagnostics,
+      ...rest,
+    });
+    child.parent = this;
+    // 设置父引擎之后再注册，保证 setup 钩子拿到完整的子引擎
+    middlewares?.forEach((middleware) => child.use(middleware));
+    return child;
   }
 
   /**
-   * 获取已注册的中间件列表
+   * 创建不带额外配置的子引擎，等价于 `extend()`
+   */
+  fork(): MiddlewareEngine<C, R> {
+    return this.extend();
+  }
+
+  /**
+   * 把整个引擎转换为中间件，挂载到其它中间件链中（类似子路由）
+   * 
+   * 引擎的中间件链执行完毕后继续执行外层链的后续部分；
+   * 引擎的错误处理函数同样作用于其内部（含外层后续部分）抛出的错误；
+   * 引擎内部分叉执行下游（见 `hedge()`）时，外层后续部分同样以分叉出的上下文执行
    * 
-   * 主要用于调试和测试
+   * @example
+   * ```ts
+   * const adminEngine = createMiddlewareEngine<HttpContext>({ middlewares: [adminAuth, audit] });
+   * appEngine.use(when(isAdminRequest, adminEngine.toMiddleware()));
+   * ```
+   */
+  toMiddleware(): Middleware<C, R> {
+    return (ctx, next) => this.dispatch(ctx, next);
+  }
+
+  /**
+   * 销毁引擎
+   * 
+   * 按注册的逆序调用自身中间件的 dispose 钩子（不包含继承自父引擎的中间件）；
+   * 之后的 dispatch / 注册都会失败，子引擎同样不可再用
+   * 
+   * @returns 所有 dispose 钩子执行完毕后完成；任一钩子失败时以第一个错误拒绝
+   */
+  dispose(): Promise<void> {
+    if (!this.disposing) {
+      this.disposing = disposeMiddlewares(this.entries.map((entry) => entry.middleware).reverse());
+    }
+    return this.disposing;
+  }
+
+  private isDisposed(): boolean {
+    return this.disposing !== undefined || (this.parent?.isDisposed() ?? false);
+  }
+
+  private assertActive(): void {
+    if (this.isDisposed()) {
+      throw new Error('Middleware engine has been disposed');
+    }
+  }
+
+  private invalidate(): void {
+    this.compiled = undefined;
+  }
+
+  /**
+   * 获取（必要时编译）全局中间件链
+   * 
+   * 父引擎重新编译后（其已排序中间件数组发生变化），子引擎随之重新编译
+   */
+  private compile(): CompiledGlobalChain<C, R> {
+    const inherited = this.parent ? this.parent.compile().entries : NO_INHERITED;
+
+    if (!this.compiled || this.compiled.inherited !== inherited) {
+      const base = inherited.length > 0 ? [...inherited, ...this.entries] : [...this.entries];
+      // 存在阶段/排序约束时重新排序，否则保持注册顺序
+      const entries = hasOrderingConstraints(base) ? sortMiddlewares(base) : base;
+      const chain = compileMiddlewares(
+        entries.map((entry) => entry.middleware),
+        this.compileOptions(entries)
+      );
+      const layerIndex = findLayerIndex(entries);
+      const outer = entries.slice(0, layerIndex);
+      this.compiled = {
+        inherited,
+        base,
+        entries,
+        chain,
+        canLayer: createLayerCheck(entries),
+        layerIndex,
+        outerChain: layerIndex === entries.length
+          ? chain
+          : compileMiddlewares(outer.map((entry) => entry.middleware), this.compileOptions(outer)),
+        innerChains: new Map(),
+      };
+    }
+    return this.compiled;
+  }
+
+  /**
+   * 自身与所有祖先引擎的追踪钩子
+   */
+  private collectTraceHooks(): MiddlewareTraceHook<C>[] {
+    return this.parent ? [...this.traceHooks, ...this.parent.collectTraceHooks()] : [...this.traceHooks];
+  }
+
+  /**
+   * 自身与所有祖先引擎的错误处理函数（自身优先）
    */
-  getMiddlewares(): Middleware<C>[] {
-    return [...this.middlewares];
+  private collectErrorHandlers(): ErrorHandler<C>[] {
+    return this.parent
+      ? [...this.errorHandlers, ...this.parent.collectErrorHandlers()]
+      : [...this.errorHandlers];
+  }
+
+  /**
+   * 生成编译配置
+   */
+  private compileOptions(entries: MiddlewareEntry<C, R>[], indexOffset = 0): CompileOptions<C> {
+    const hooks = this.collectTraceHooks();
+    return {
+      captureError: this.captureError,
+      instrument: hooks.length === 0
+        ? undefined
+        : hooks.length === 1
+          ? hooks[0]
+          : (event) => hooks.forEach((hook) => {
+              try {
+                hook(event);
+              } catch {
+                // 单个钩子出错不影响其它钩子
+              }
+            }),
+      diagnostics: this.diagnostics,
+      names: entries.map((entry) => entry.name),
+      indexOffset,
+    };
+  }
+
+  private toEntries(middlewares: Middleware<C, R>[]): MiddlewareEntry<C, R>[] {
+    return middlewares.map((middleware) => ({
+      name: getMiddlewareMeta(middleware).name,
+      middleware,
+    }));
+  }
+
+  private indexOf(name: string): number {
+    return this.entries.findIndex((entry) => entry.name === name);
+  }
+
+  private requireIndex(name: string): number {
+    const index = this.indexOf(name);
+    if (index === -1) {
+      throw new Error(`Middleware "${name}" is not registered`);
+    }
+    return index;
   }
 
   /**
    * 执行中间件链
    * 
    * @param ctx 上下文对象
-   * @param finalHandler 可选的最终处理函数（如实际发送请求）
+   * @param finalHandler 可选的最终处理函数（如实际发送请求），接收本次执行的上下文（分叉执行时为分叉出的上下文）
    * @param extraMiddlewares 可选的本次执行额外中间件（per-request 中间件）
    * 
-   * @throws 中间件或 finalHandler 抛出的任何错误都会直接向上传播
+   * @throws 中间件或 finalHandler 抛出的错误在经过错误处理函数后继续向上传播（未恢复时）
+   * @throws 排序约束存在环或引擎已销毁时抛出
    */
   async dispatch(
     ctx: C,
-    finalHandler?: () => Promise<void>,
-    extraMiddlewares?: Middleware<C>[]
-  ): Promise<void> {
-    // 合并中间件：全局中间件 + 额外中间件
-    const allMiddlewares: Middleware<C>[] = extraMiddlewares
-      ? [...this.middlewares, ...extraMiddlewares]
-      : this.middlewares;
-
-    // 组合并执行中间件链
-    const composed = composeMiddlewares(allMiddlewares, finalHandler);
-    await composed(ctx);
+    finalHandler?: (ctx: C) => Promise<R>,
+    extraMiddlewares?: Middleware<C, R>[]
+  ): Promise<R> {
+    this.assertActive();
+    const chain = this.resolve(extraMiddlewares);
+
+    try {
+      return await chain(ctx, finalHandler);
+    } catch (error) {
+      await this.handleError(error, ctx);
+      // 错误已恢复：没有可用的结果
+      return undefined as R;
+    }
+  }
+
+  /**
+   * 解析本次执行使用的中间件链
+   * 
+   * - 无 per-request 中间件：直接使用已编译的全局链
+   * - 能分层时：per-request 中间件作为全局链的 finalHandler 执行（位于 `transport-near` 等内层阶段的全局中间件之外），
+   *   无需重新编译全局链
+   * - 否则：合并后统一排序并编译
+   */
+  private resolve(extraMiddlewares?: Middleware<C, R>[]): CompiledChain<C, R> {
+    const compiled = this.compile();
+    if (!extraMiddlewares || extraMiddlewares.length === 0) {
+      return compiled.chain;
+    }
+
+    const extraEntries = this.toEntries(extraMiddlewares);
+
+    if (compiled.canLayer(extraEntries)) {
+      const { entries, layerIndex, outerChain } = compiled;
+      const extraChain = compileMiddlewares(extraMiddlewares, this.compileOptions(extraEntries, layerIndex));
+      if (layerIndex === entries.length) {
+        return (ctx, finalHandler) => outerChain(ctx, (current) => extraChain(current, finalHandler));
+      }
+
+      const innerChain = this.compileInner(compiled, extraEntries.length);
+      return (ctx, finalHandler) =>
+        outerChain(ctx, (current) => extraChain(current, (inner) => innerChain(inner, finalHandler)));
+    }
+
+    const ordered = sortMiddlewares([...compiled.base, ...extraEntries]);
+    return compileMiddlewares(ordered.map((entry) => entry.middleware), this.compileOptions(ordered));
+  }
+
+  /**
+   * 获取（必要时编译）插入位置之内的全局中间件链
+   */
+  private compileInner(compiled: CompiledGlobalChain<C, R>, extraCount: number): CompiledChain<C, R> {
+    let chain = compiled.innerChains.get(extraCount);
+    if (!chain) {
+      const inner = compiled.entries.slice(compiled.layerIndex);
+      chain = compileMiddlewares(
+        inner.map((entry) => entry.middleware),
+        this.compileOptions(inner, compiled.layerIndex + extraCount)
+      );
+      compiled.innerChains.set(extraCount, chain);
+    }
+    return chain;
+  }
+
+  /**
+   * 错误边界：依次调用错误处理函数，未恢复时继续向上抛出原错误
+   */
+  private async handleError(error: unknown, ctx: C): Promise<void> {
+    const handlers = this.collectErrorHandlers();
+    if (handlers.length === 0) {
+      throw error;
+    }
+
+    const normalized = toError(error);
+    for (const handler of handlers) {
+      await handler(normalized, ctx);
+    }
+
+    if (!this.isRecovered?.(ctx, normalized)) {
+      throw error;
+    }
   }
 }
 
@@ -106,8 +657,8 @@ export class MiddlewareEngine<C = Record<string, unknown>> implements IMiddlewar
  * });
  * ```
  */
-export function createMiddlewareEngine<C = Record<string, unknown>>(
-  options?: MiddlewareEngineOptions<C>
-): IMiddlewareEngine<C> {
-  return new MiddlewareEngine<C>(options);
+export function createMiddlewareEngine<C = Record<string, unknown>, R = void>(
+  options?: MiddlewareEngineOptions<C, R>
+): IMiddlewareEngine<C, R> {
+  return new MiddlewareEngine<C, R>(options);
 }
@@ -0,0 +1,118 @@
+/**
+ * 中间件元信息
+ *
+ * 元信息保存在 WeakMap 中，不会修改中间件函数本身；
+ * 对象形式的中间件在注册时转换为携带元信息的函数
+ */
+
+import type {
+  Middleware,
+  MiddlewareLike,
+  MiddlewareMeta,
+  MiddlewareObject,
+  MiddlewarePhase,
+} from './middlewareTypes';
+
+/**
+ * 阶段顺序（由外向内）
+ */
+export const MIDDLEWARE_PHASES: readonly MiddlewarePhase[] = [
+  'pre-auth',
+  'auth',
+  'cache',
+  'default',
+  'transport-near',
+];
+
+const metaStore = new WeakMap<Middleware<any, any>, MiddlewareMeta>();
+
+/** 对象形式中间件对应的函数（保证同一对象多次注册/移除时指向同一函数） */
+const objectStore = new WeakMap<MiddlewareObject<any, any>, Middleware<any, any>>();
+
+/**
+ * 为中间件声明元信息
+ *
+ * 返回一个新的中间件函数，原函数可以用不同的元信息重复声明；
+ * 也可以直接传入对象形式的中间件（`{ handle, name, setup, dispose, ... }`）
+ *
+ * @param middleware 中间件函数或对象形式的中间件
+ * @param meta 元信息（名称、阶段、排序约束、生命周期钩子）
+ * @returns 携带元信息的中间件
+ *
+ * @example
+ * ```ts
+ * const auth = defineMiddleware(async (ctx, next) => {
+ *   ctx.request.headers = { ...ctx.request.headers, Authorization: token };
+ *   await next();
+ * }, { name: 'auth', phase: 'auth' });
+ *
+ * const audit = defineMiddleware(auditHandler, { name: 'audit', runsAfter: ['auth'] });
+ *
+ * const polling = defineMiddleware({
+ *   name: 'polling',
+ *   setup: () => startPolling(),
+ *   dispose: () => stopPolling(),
+ *   handle: async (ctx, next) => next(),
+ * });
+ * ```
+ */
+export function defineMiddleware<C = Record<string, unknown>, R = void>(
+  middleware: MiddlewareObject<C, R>
+): Middleware<C, R>;
+export function defineMiddleware<C = Record<string, unknown>, R = void>(
+  middleware: Middleware<C, R>,
+  meta: MiddlewareMeta<C>
+): Middleware<C, R>;
+export function defineMiddleware<C = Record<string, unknown>, R = void>(
+  middleware: MiddlewareLike<C, R>,
+  meta?: MiddlewareMeta<C>
+): Middleware<C, R> {
+  if (typeof middleware !== 'function') {
+    return defineObjectMiddleware(middleware);
+  }
+
+  const defined: Middleware<C, R> = (ctx, next) => middleware(ctx, next);
+  // 保留原函数名，便于追踪与调试
+  Object.defineProperty(defined, 'name', { value: middleware.name, configurable: true });
+  metaStore.set(defined, { ...getMiddlewareMeta(middleware), ...meta });
+  return defined;
+}
+
+/**
+ * 把对象形式的中间件转换为携带元信息的函数
+ *
+ * 钩子以原对象为 this 调用，同一对象总是得到同一函数
+ */
+function defineObjectMiddleware<C, R>(object: MiddlewareObject<C, R>): Middleware<C, R> {
+  if (!object || typeof object.handle !== 'function') {
+    throw new TypeError('Middleware must be a function');
+  }
+
+  const cached = objectStore.get(object);
+  if (cached) {
+    return cached;
+  }
+
+  const { handle, setup, dispose, ...meta } = object;
+  const defined = defineMiddleware<C, R>((ctx, next) => handle.call(object, ctx, next), {
+    ...meta,
+    setup: setup && ((engine) => setup.call(object, engine)),
+    dispose: dispose && (() => dispose.call(object)),
+  });
+  objectStore.set(object, defined);
+  return defined;
+}
+
+/**
+ * 统一为中间件函数（对象形式经 `defineMiddleware` 转换）
+ */
+export function toMiddlewareFunction<C, R>(middleware: MiddlewareLike<C, R>): Middleware<C, R> {
+  return typeof middleware === 'function' ? middleware : defineObjectMiddleware(middleware);
+}
+
+/**
+ * 读取中间件元信息（未声明时返回空对象）
+ */
+export function getMiddlewareMeta(middleware: Middleware<any, any>): MiddlewareMeta {
+  return metaStore.get(middleware) ?? {};
+}
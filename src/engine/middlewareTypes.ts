@@ -13,13 +13,19 @@
 
 /**
  * 下一步函数类型
+ *
+ * @template R - 下游（后续中间件 + finalHandler）的结果类型，默认为 void
  */
-export type NextFunction = () => Promise<void>;
+export type NextFunction<R = void> = () => Promise<R>;
 
 /**
  * 中间件函数类型
  * 
  * @template C - 上下文类型，默认为 Record<string, unknown>
+ * @template R - 链的结果类型，默认为 void（结果通过 ctx 传递）
+ * 
+ * 指定 R 时，`next()` 解析为下游的结果；中间件返回值即为本层结果，
+ * 返回 undefined 时透传下游结果（只关心副作用的中间件 `await next()` 后不返回即可）
  * 
  * @example
  * ```ts
@@ -28,51 +34,487 @@ export type NextFunction = () => Promise<void>;
  *   await next();
  *   console.log('Response:', ctx.response?.status);
  * };
+ * 
+ * const doubleResult: Middleware<Command, number> = async (ctx, next) => {
+ *   return (await next()) * 2;
+ * };
  * ```
  */
-export type Middleware<C = Record<string, unknown>> = (
+export type Middleware<C = Record<string, unknown>, R = void> = (
   ctx: C,
-  next: NextFunction
-) => Promise<void>;
+  next: NextFunction<R>
+) => Promise<R | void>;
+
+/**
+ * 中间件阶段
+ *
+ * 按以下顺序由外向内排列：
+ * `pre-auth` → `auth` → `cache` → `default` → `transport-near`
+ *
+ * 未声明阶段的中间件视为 `default`
+ */
+export type MiddlewarePhase = 'pre-auth' | 'auth' | 'cache' | 'default' | 'transport-near';
+
+/**
+ * 中间件元信息
+ *
+ * 通过 `defineMiddleware` 附加到中间件上，用于命名、排序约束与生命周期
+ */
+export interface MiddlewareMeta<C = any> {
+  /** 默认注册名 */
+  name?: string;
+  /** 所属阶段 */
+  phase?: MiddlewarePhase;
+  /** 需要位于这些中间件之外（先执行前置逻辑） */
+  runsBefore?: string[];
+  /** 需要位于这些中间件之内（后执行前置逻辑） */
+  runsAfter?: string[];
+  /**
+   * 注册到引擎时调用（每次注册各调用一次）
+   *
+   * 抛出错误时注册被撤销
+   */
+  setup?(engine: IMiddlewareEngine<C, any>): void;
+  /**
+   * 引擎 dispose 时调用，用于释放定时器、缓存等资源
+   *
+   * 同一引擎内共享同一 dispose 的中间件（如经 `when()` 包装）只调用一次；
+   * `remove()` 不会调用 dispose
+   */
+  dispose?(): void | Promise<void>;
+}
+
+/**
+ * 对象形式的中间件
+ *
+ * 除 `handle` 外的字段与 `MiddlewareMeta` 相同，注册时等价于 `defineMiddleware(handle, meta)`
+ *
+ * @example
+ * ```ts
+ * const polling: MiddlewareObject<HttpContext> = {
+ *   name: 'polling',
+ *   setup() {
+ *     timer = setInterval(refresh, 60_000);
+ *   },
+ *   dispose() {
+ *     clearInterval(timer);
+ *   },
+ *   async handle(ctx, next) {
+ *     await next();
+ *   },
+ * };
+ * ```
+ */
+export interface MiddlewareObject<C = Record<string, unknown>, R = void> extends MiddlewareMeta<C> {
+  /** 中间件处理函数 */
+  handle: Middleware<C, R>;
+}
+
+/**
+ * 可注册到引擎的中间件：函数或对象形式
+ */
+export type MiddlewareLike<C = Record<string, unknown>, R = void> = Middleware<C, R> | MiddlewareObject<C, R>;
+
+/**
+ * 错误处理函数
+ *
+ * - 正常返回：仅做上报/记录
+ * - 抛出错误：以新错误替代原错误向上抛出（错误映射）
+ * - 由上层定义的「恢复」条件成立时（如 HTTP 客户端中设置了 `ctx.response`），错误被吞掉
+ *
+ * @example
+ * ```ts
+ * client.onError((error, ctx) => {
+ *   reportError(error, ctx.request.url);
+ * });
+ * ```
+ */
+export type ErrorHandler<C = Record<string, unknown>> = (
+  error: Error,
+  ctx: C
+) => void | Promise<void>;
+
+/**
+ * 中间件进入事件
+ */
+export interface MiddlewareEnterEvent<C = Record<string, unknown>> {
+  type: 'enter';
+  /** 中间件名称（注册名 / 元信息名 / 函数名，均缺失时为 `<anonymous#index>`） */
+  name: string;
+  /** 在本次执行链中的位置 */
+  index: number;
+  /** 上下文对象 */
+  ctx: C;
+}
+
+/**
+ * 中间件退出事件
+ */
+export interface MiddlewareExitEvent<C = Record<string, unknown>> {
+  type: 'exit';
+  /** 中间件名称 */
+  name: string;
+  /** 在本次执行链中的位置 */
+  index: number;
+  /** 上下文对象 */
+  ctx: C;
+  /** 调用 next() 之前的耗时 (ms)，未调用 next() 时为自身总耗时 */
+  beforeNext: number;
+  /** next() 完成之后的耗时 (ms)，未调用 next() 时为 0 */
+  afterNext: number;
+  /** 下游（后续中间件 + finalHandler）耗时 (ms) */
+  downstream: number;
+  /** 是否未调用 next() 而提前结束 */
+  shortCircuited: boolean;
+  /** 是否抛出错误 */
+  threw: boolean;
+  /** 抛出的错误 */
+  error?: Error;
+}
+
+/**
+ * 中间件追踪事件
+ */
+export type MiddlewareTraceEvent<C = Record<string, unknown>> =
+  | MiddlewareEnterEvent<C>
+  | MiddlewareExitEvent<C>;
+
+/**
+ * 中间件追踪钩子
+ *
+ * 钩子内抛出的错误会被忽略，不会影响中间件链的执行
+ */
+export type MiddlewareTraceHook<C = Record<string, unknown>> = (event: MiddlewareTraceEvent<C>) => void;
+
+/**
+ * 中间件诊断信息
+ *
+ * - `floating-next`：中间件已结束，但其调用的 next() 仍未完成（通常是忘记 `await next()`）
+ * - `late-next`：中间件结束之后才调用 next()（该调用会被忽略）
+ */
+export interface MiddlewareDiagnostic {
+  type: 'floating-next' | 'late-next';
+  /** 中间件名称 */
+  name: string;
+  /** 在本次执行链中的位置 */
+  index: number;
+  /** 可读的描述 */
+  message: string;
+}
+
+/**
+ * 诊断模式配置
+ */
+export interface MiddlewareDiagnosticsOptions {
+  /**
+   * 单个中间件自身的耗时预算 (ms)，不含等待 next() 的时间
+   *
+   * 超出时本次执行以 `MiddlewareTimeoutError` 失败，错误信息中包含中间件名称
+   */
+  timeout?: number;
+  /** 诊断回调，默认输出到 console.warn */
+  onDiagnostic?: (diagnostic: MiddlewareDiagnostic) => void;
+}
+
+/**
+ * compose 配置
+ */
+export interface ComposeOptions<C = Record<string, unknown>> {
+  /**
+   * 任一中间件或 finalHandler 抛出错误时调用（由内向外逐层调用）
+   *
+   * 用于在错误向外传播的过程中把错误记录到上下文中
+   */
+  captureError?: (ctx: C, error: Error) => void;
+  /**
+   * 追踪钩子，为每个中间件发出 enter / exit 事件
+   *
+   * 未提供时不产生任何额外开销
+   */
+  instrument?: MiddlewareTraceHook<C>;
+  /**
+   * 诊断模式：检测未 await 的 next()、结束后调用的 next()，以及超出耗时预算的中间件
+   *
+   * 传入 true 时使用默认配置（不限制耗时）
+   */
+  diagnostics?: boolean | MiddlewareDiagnosticsOptions;
+}
+
+// ============================================================================
+// State 契约
+// ============================================================================
+
+/**
+ * 中间件声明的 state 契约
+ *
+ * - `requires`：执行前必须已由更外层中间件写入的键
+ * - `provides`：本中间件写入、供内层中间件与调用方读取的键
+ */
+export interface StateContract<TRequires extends object = object, TProvides extends object = object> {
+  requires: TRequires;
+  provides: TProvides;
+}
+
+/**
+ * 声明了 state 契约的中间件
+ *
+ * 运行时与普通中间件完全相同，契约只存在于类型层面，由 `stateful()` 创建
+ */
+export type StatefulMiddleware<
+  TRequires extends object = object,
+  TProvides extends object = object,
+  C = HttpContext,
+  R = void,
+> = Middleware<C, R> & {
+  /** 仅用于类型推导，运行时不存在 */
+  readonly __state?: StateContract<TRequires, TProvides>;
+};
+
+/**
+ * 读取上下文中的 state 类型
+ */
+export type StateOf<C> = C extends { state: infer S } ? S : object;
+
+/**
+ * TState 中缺失（或类型不匹配）的 TRequires 键
+ */
+export type MissingStateKeys<TState, TRequires> = {
+  [K in keyof TRequires]-?: [TState] extends [Pick<TRequires, K>] ? never : K;
+}[keyof TRequires];
+
+/**
+ * 校验上下文是否满足中间件的 requires
+ *
+ * 满足时为 `unknown`（不产生额外约束），否则要求一个不存在的 `__missingState` 属性，
+ * 使编译错误中直接给出缺失的键名
+ */
+export type RequireState<C, TRequires> = [MissingStateKeys<StateOf<C>, TRequires>] extends [never]
+  ? unknown
+  : { readonly __missingState: MissingStateKeys<StateOf<C>, TRequires> };
+
+/**
+ * 读取中间件声明的 requires（未声明契约时为 object）
+ */
+export type StateRequiresOf<M> = M extends { readonly __state?: StateContract<infer TRequires, object> }
+  ? TRequires
+  : object;
+
+/**
+ * 读取中间件声明的 provides（未声明契约时为 object）
+ */
+export type StateProvidesOf<M> = M extends { readonly __state?: StateContract<object, infer TProvides> }
+  ? TProvides
+  : object;
+
+/**
+ * 中间件列表中第一个未被满足的 requires 缺失的键（前面的中间件提供的键对后面的中间件可见）
+ */
+type MissingChainStateKeys<C, M extends readonly unknown[]> = M extends readonly [infer First, ...infer Rest]
+  ? [MissingStateKeys<StateOf<C>, StateRequiresOf<First>>] extends [never]
+    ? MissingChainStateKeys<C & { state: StateProvidesOf<First> }, Rest>
+    : MissingStateKeys<StateOf<C>, StateRequiresOf<First>>
+  : never;
+
+/**
+ * 按顺序校验中间件列表（元组）是否满足各自的 requires，用法与 `RequireState` 相同
+ *
+ * 非元组的数组（如 `Middleware[]` 类型的变量）无法逐项校验，视为满足
+ */
+export type RequireStateChain<C, M extends readonly unknown[]> = [MissingChainStateKeys<C, M>] extends [never]
+  ? unknown
+  : { readonly __missingState: MissingChainStateKeys<C, M> };
 
 // ============================================================================
 // Engine 相关类型
 // ============================================================================
 
+/**
+ * 已注册中间件的描述信息
+ */
+export interface MiddlewareEntry<C = Record<string, unknown>, R = void> {
+  /** 注册名（匿名注册时为 undefined） */
+  name?: string;
+  /** 中间件函数 */
+  middleware: Middleware<C, R>;
+}
+
+/**
+ * 注册中间件时的可选项
+ *
+ * `before` / `after` 指向已注册中间件的名称，二者同时存在时以 `before` 为准
+ */
+export interface UseMiddlewareOptions {
+  /** 注册名，同一引擎内唯一（默认取中间件元信息中的 name） */
+  name?: string;
+  /** 插入到指定名称的中间件之前 */
+  before?: string;
+  /** 插入到指定名称的中间件之后 */
+  after?: string;
+}
+
+/**
+ * 注销函数，调用后移除对应的中间件（重复调用无副作用）
+ */
+export type MiddlewareDisposer = () => void;
+
 /**
  * 中间件引擎配置
  */
-export interface MiddlewareEngineOptions<C = Record<string, unknown>> {
+export interface MiddlewareEngineOptions<C = Record<string, unknown>, R = void> {
   /** 初始中间件列表 */
-  middlewares?: Middleware<C>[];
+  middlewares?: MiddlewareLike<C, R>[];
+  /** 错误处理函数 */
+  onError?: ErrorHandler<C> | ErrorHandler<C>[];
+  /** 中间件抛错时把错误记录到上下文中（见 `ComposeOptions.captureError`） */
+  captureError?: (ctx: C, error: Error) => void;
+  /** 追踪钩子（见 `ComposeOptions.instrument`） */
+  instrument?: MiddlewareTraceHook<C>;
+  /** 诊断模式（见 `ComposeOptions.diagnostics`） */
+  diagnostics?: boolean | MiddlewareDiagnosticsOptions;
+  /**
+   * 错误处理函数执行完毕后判断是否已恢复
+   *
+   * 返回 true 时 dispatch 正常完成；未提供时错误总会继续向上抛出
+   */
+  isRecovered?: (ctx: C, error: Error) => boolean;
 }
 
 /**
  * 中间件引擎接口
+ *
+ * @template C - 上下文类型
+ * @template R - 链的结果类型，默认为 void（见 `Middleware`）
  */
-export interface IMiddlewareEngine<C = Record<string, unknown>> {
+export interface IMiddlewareEngine<C = Record<string, unknown>, R = void> {
   /**
    * 注册中间件
-   * @param middleware 中间件函数
+   *
+   * 声明了 state 契约的中间件（见 `stateful()`）的 requires 未被上下文类型满足时编译报错；
+   * 需要累积 provides 时使用 `with()`
+   *
+   * @param middleware 中间件函数或对象形式的中间件
+   * @param options 注册名与插入位置
+   * @returns 注销函数
+   */
+  use<M extends MiddlewareLike<C, R>>(
+    middleware: M & RequireState<C, StateRequiresOf<M>>,
+    options?: UseMiddlewareOptions
+  ): MiddlewareDisposer;
+
+  /**
+   * 注册声明了 state 契约的中间件，返回累积了 provides 的引擎类型
+   *
+   * 运行时等价于 `use()`（返回同一个引擎实例）；requires 未被之前的中间件提供时编译报错
+   *
+   * @example
+   * ```ts
+   * const engine = createMiddlewareEngine<HttpContext>()
+   *   .with(authMiddleware) // provides { user: User }
+   *   .with(auditMiddleware); // requires { user: User }
+   * ```
+   */
+  with<TRequires extends object = object, TProvides extends object = object>(
+    middleware: StatefulMiddleware<TRequires, TProvides, C, R> & RequireState<C, TRequires>,
+    options?: UseMiddlewareOptions
+  ): IMiddlewareEngine<C & { state: TProvides }, R>;
+
+  /**
+   * 在指定名称的中间件之前插入
+   * @param anchor 锚点中间件名称
+   * @param middleware 中间件函数或对象形式的中间件
+   * @param name 可选的注册名
+   */
+  insertBefore(anchor: string, middleware: MiddlewareLike<C, R>, name?: string): MiddlewareDisposer;
+
+  /**
+   * 在指定名称的中间件之后插入
+   * @param anchor 锚点中间件名称
+   * @param middleware 中间件函数或对象形式的中间件
+   * @param name 可选的注册名
+   */
+  insertAfter(anchor: string, middleware: MiddlewareLike<C, R>, name?: string): MiddlewareDisposer;
+
+  /**
+   * 移除中间件
+   * @param target 注册名或中间件本身
+   * @returns 是否移除成功
+   */
+  remove(target: string | MiddlewareLike<C, R>): boolean;
+
+  /**
+   * 替换指定名称的中间件（保留原位置）
+   * @param name 注册名
+   * @param middleware 新的中间件
+   */
+  replace(name: string, middleware: MiddlewareLike<C, R>): void;
+
+  /**
+   * 获取已注册的中间件列表（按注册位置，含注册名，用于调试/测试）
+   *
+   * 不包含继承自父引擎的中间件，完整的执行顺序见 `describe()`
+   */
+  getMiddlewares(): MiddlewareEntry<C, R>[];
+
+  /**
+   * 获取解析后的中间件链（排序后的最终执行顺序，含继承自父引擎的中间件）
+   */
+  getPipeline(): MiddlewareEntry<C, R>[];
+
+  /**
+   * 创建子引擎，实时继承当前引擎的中间件、错误处理函数与追踪钩子
+   * @param options 子引擎配置
+   */
+  extend(options?: MiddlewareEngineOptions<C, R>): IMiddlewareEngine<C, R>;
+
+  /**
+   * 创建不带额外配置的子引擎，等价于 `extend()`
+   */
+  fork(): IMiddlewareEngine<C, R>;
+
+  /**
+   * 把整个引擎转换为中间件，挂载到其它中间件链中
+   */
+  toMiddleware(): Middleware<C, R>;
+
+  /**
+   * 注册错误处理函数
+   * @param handler 错误处理函数
+   * @returns 注销函数
+   */
+  onError(handler: ErrorHandler<C>): MiddlewareDisposer;
+
+  /**
+   * 注册追踪钩子
+   * @param hook 追踪钩子
+   * @returns 注销函数
+   */
+  instrument(hook: MiddlewareTraceHook<C>): MiddlewareDisposer;
+
+  /**
+   * 输出解析后的中间件链（排序后的最终执行顺序）
+   * @param extraMiddlewares 可选的本次执行额外中间件
    */
-  use(middleware: Middleware<C>): void;
+  describe(extraMiddlewares?: Middleware<C, R>[]): string;
 
   /**
-   * 获取已注册的中间件列表（用于调试/测试）
+   * 销毁引擎：按注册的逆序调用自身中间件的 dispose 钩子
+   *
+   * 之后的 dispatch 与注册都会失败（子引擎同样不可再用）；重复调用返回同一个 Promise
    */
-  getMiddlewares(): Middleware<C>[];
+  dispose(): Promise<void>;
 
   /**
    * 执行中间件链
    * @param ctx 上下文对象
-   * @param finalHandler 可选的最终处理函数（如实际发送请求）
+   * @param finalHandler 可选的最终处理函数（如实际发送请求），接收本次执行的上下文，其返回值作为链的初始结果
    * @param extraMiddlewares 可选的本次执行额外中间件
+   * @returns 链的结果（最外层中间件的结果）；未提供 finalHandler 且无中间件返回值、或错误被恢复时为 undefined
    */
   dispatch(
     ctx: C,
-    finalHandler?: () => Promise<void>,
-    extraMiddlewares?: Middleware<C>[]
-  ): Promise<void>;
+    finalHandler?: (ctx: C) => Promise<R>,
+    extraMiddlewares?: Middleware<C, R>[]
+  ): Promise<R>;
 }
 
 // ============================================================================
@@ -96,18 +538,137 @@ export interface RequestConfig<TData = unknown> {
   headers?: Record<string, string>;
   /** 请求参数 (query string) */
   params?: Record<string, unknown>;
+  /**
+   * query 参数的序列化方式：格式选项或自定义函数（见 `serializeParams()`）
+   *
+   * 优先于 adapter 配置的 `paramsSerializer`，默认数组重复键名、嵌套对象使用方括号
+   */
+  paramsSerializer?: ParamsSerializer;
+  /**
+   * 路径参数，展开 url 中的 `/:name`、`/:name?`（可选）与 `{name}` 模板（见 `buildUrl()`）
+   *
+   * 值逐段进行百分号编码
+   */
+  pathParams?: Record<string, PathParamValue | null | undefined>;
   /** 请求体数据 */
   data?: TData;
   /** 超时时间 (ms) */
   timeout?: number;
   /** 基础 URL */
   baseURL?: string;
-  /** 响应类型 */
-  responseType?: 'json' | 'text' | 'blob' | 'arraybuffer';
+  /**
+   * 响应类型，省略时按响应头的 Content-Type 解码（见 `decodeBody()`）
+   *
+   * `stream` 返回响应体的 `ReadableStream`（axios adapter 交给 axios 处理）
+   */
+  responseType?: 'json' | 'text' | 'blob' | 'arraybuffer' | 'stream';
+  /** 取消信号，取消时请求以 `AbortError` 拒绝 */
+  signal?: AbortSignal;
+  /**
+   * 判断状态码是否视为成功：返回 false 时以 `HttpError` 拒绝，否则作为正常响应进入中间件链
+   *
+   * 优先于 adapter 配置的 `validateStatus`，默认仅 2xx 视为成功
+   */
+  validateStatus?: ValidateStatus;
+  /**
+   * 响应数据校验（schema 或谓词），需要注册 `createValidationMiddleware()` 才会生效
+   *
+   * 校验失败时请求以 `ResponseValidationError` 拒绝
+   */
+  validate?: ResponseValidator;
+  /**
+   * 是否执行 `createTransformMiddleware()` 的转换：false 跳过全部转换，
+   * `{ request: false }` / `{ response: false }` 只跳过请求或响应一侧，默认执行
+   */
+  transform?: boolean | { request?: boolean; response?: boolean };
   /** 自定义配置 */
   [key: string]: unknown;
 }
 
+/**
+ * 路径参数值
+ */
+export type PathParamValue = string | number | boolean;
+
+/**
+ * 数组参数格式，以 `{ ids: [1, 2] }` 为例：
+ *
+ * - `repeat`：`ids=1&ids=2`
+ * - `brackets`：`ids[]=1&ids[]=2`
+ * - `indices`：`ids[0]=1&ids[1]=2`
+ * - `comma`：`ids=1,2`
+ */
+export type ArrayFormat = 'repeat' | 'brackets' | 'indices' | 'comma';
+
+/**
+ * 内置 query 序列化选项
+ */
+export interface ParamsSerializerOptions {
+  /** 数组格式，默认 `repeat` */
+  arrayFormat?: ArrayFormat;
+  /** 嵌套对象格式：`brackets`（`user[name]=a`）或 `dots`（`user.name=a`），默认 `brackets` */
+  nesting?: 'brackets' | 'dots';
+  /** Date 的序列化方式，默认 `toISOString()` */
+  serializeDate?: (date: Date) => string;
+}
+
+/**
+ * query 参数序列化：内置格式选项，或返回 query 字符串（不含 `?`）的函数
+ */
+export type ParamsSerializer = ParamsSerializerOptions | ((params: Record<string, unknown>) => string);
+
+/**
+ * 请求体编码函数：把 `data` 编码为 fetch 可发送的 body
+ *
+ * @param data 请求配置中的 data（非 `BodyInit` 的普通值）
+ * @param contentType 请求头中完整的 Content-Type（含 charset 等参数）
+ */
+export type BodyEncoder = (data: unknown, contentType: string) => BodyInit;
+
+/**
+ * 响应体解码函数：把响应文本解码为 data，无法解码时抛错（adapter 转换为 `ParseError`）
+ *
+ * @param text 响应文本
+ * @param contentType 响应头中完整的 Content-Type（含 charset 等参数）
+ */
+export type ResponseDecoder = (text: string, contentType: string) => unknown;
+
+/**
+ * 状态码校验函数
+ */
+export type ValidateStatus = (status: number) => boolean;
+
+/**
+ * `{ parse(input): T }` 形式的 schema（兼容 zod 等），解析失败时抛错
+ */
+export interface ResponseSchema<T = unknown> {
+  parse(input: unknown): T;
+}
+
+/**
+ * 响应数据校验器：schema、类型守卫或返回 boolean 的谓词
+ */
+export type ResponseValidator<T = unknown> =
+  | ResponseSchema<T>
+  | ((data: unknown) => data is T)
+  | ((data: unknown) => boolean);
+
+/**
+ * 从校验器推导响应数据类型（schema 取 parse 的返回类型，类型守卫取守卫类型，普通谓词为 unknown）
+ */
+export type InferValidated<V> = V extends ResponseSchema<infer T>
+  ? T
+  : V extends (data: unknown) => data is infer T
+    ? T
+    : unknown;
+
+/**
+ * 带校验器的请求配置（响应数据类型由 `validate` 推导）
+ */
+export type ValidatedRequestConfig<V extends ResponseValidator, TData = unknown> = RequestConfig<TData> & {
+  validate: V;
+};
+
 /**
  * 响应对象
  */
@@ -129,15 +690,25 @@ export interface ResponseData<TData = unknown> {
  * 
  * 适用于 axios/fetch 等 HTTP 请求场景
  */
-export interface HttpContext<TReqData = unknown, TResData = unknown> {
+export interface HttpContext<
+  TReqData = unknown,
+  TResData = unknown,
+  TState extends object = Record<string, unknown>,
+> {
   /** 请求配置 */
   request: RequestConfig<TReqData>;
   /** 响应对象 (在响应阶段可用) */
   response?: ResponseData<TResData>;
-  /** 错误对象 (发生错误时可用) */
+  /** 错误对象 (任一中间件或 adapter 抛错时可用) */
   error?: Error;
-  /** 共享状态 - 中间件可自由读写 */
-  state: Record<string, unknown>;
+  /**
+   * 取消信号（初始为 `request.signal`）
+   *
+   * 中间件在等待（延迟、排队等）时应响应该信号；替换后 adapter 使用新的信号
+   */
+  signal?: AbortSignal;
+  /** 共享状态 - 中间件可自由读写（键的类型可由 state 契约声明） */
+  state: TState;
 }
 
 /**
@@ -157,31 +728,184 @@ export interface HttpAdapter {
 
 /**
  * HTTP 客户端配置
+ *
+ * @template M 中间件列表的类型（元组时按顺序校验 state 契约，见 `RequireStateChain`）
  */
-export interface HttpClientOptions<C = HttpContext> {
+export interface HttpClientOptions<C = HttpContext, M extends readonly MiddlewareLike<C>[] = MiddlewareLike<C>[]> {
   /** HTTP 适配器 */
   adapter: HttpAdapter;
   /** 全局中间件列表 */
-  middlewares?: Middleware<C>[];
+  middlewares?: M;
+  /**
+   * 父引擎（如应用级共享引擎）
+   *
+   * 提供时 client 基于 `engine.extend()` 创建自身引擎，实时继承父引擎的中间件
+   */
+  engine?: IMiddlewareEngine<C>;
   /** 默认请求配置 */
   defaults?: Partial<RequestConfig>;
+  /**
+   * 错误处理函数
+   *
+   * 处理函数中设置 `ctx.response` 即视为恢复，请求将以该响应正常返回
+   */
+  onError?: ErrorHandler<C> | ErrorHandler<C>[];
+}
+
+/**
+ * `client.extend()` 配置
+ */
+export interface HttpClientExtendOptions<C = HttpContext, M extends readonly MiddlewareLike<C>[] = MiddlewareLike<C>[]> {
+  /** 默认请求配置，与父 client 的默认配置合并（headers、params 逐键合并，其余字段覆盖） */
+  defaults?: Partial<RequestConfig>;
+  /** 追加的中间件，叠加在父 client 的中间件之内（阶段与排序约束跨层级生效） */
+  middlewares?: M;
+  /** 追加的错误处理函数，在父 client 的错误处理函数之后执行 */
+  onError?: ErrorHandler<C> | ErrorHandler<C>[];
+}
+
+/**
+ * 拦截器成功回调：返回（或 resolve）新的值
+ */
+export type InterceptorFulfilled<V> = (value: V) => V | Promise<V>;
+
+/**
+ * 拦截器失败回调：返回值视为恢复，继续抛出则交给下一个拦截器
+ */
+export type InterceptorRejected<V> = (error: Error) => V | Promise<V>;
+
+/**
+ * 拦截器管理器（与 axios 的 `interceptors.request` / `interceptors.response` 一致）
+ */
+export interface InterceptorManager<V> {
+  /**
+   * 注册拦截器
+   *
+   * @returns 拦截器 id，用于 `eject()`
+   */
+  use(onFulfilled?: InterceptorFulfilled<V> | null, onRejected?: InterceptorRejected<V> | null): number;
+  /** 移除指定 id 的拦截器，不存在时忽略 */
+  eject(id: number): void;
+  /** 移除全部拦截器 */
+  clear(): void;
+}
+
+/**
+ * 客户端拦截器
+ *
+ * 拦截器合并为一个名为 `interceptors` 的中间件，位于 `transport-near` 阶段的最外层：
+ * 请求拦截器在其它阶段的中间件之后、实际请求之前执行，响应拦截器的结果对这些中间件可见
+ */
+export interface HttpClientInterceptors {
+  /** 请求拦截器：按注册的逆序执行（后注册的先执行），结果作为新的 ctx.request */
+  request: InterceptorManager<RequestConfig>;
+  /** 响应拦截器：按注册顺序执行，结果作为新的 ctx.response */
+  response: InterceptorManager<ResponseData>;
 }
 
 /**
  * HTTP 客户端接口
  */
-export interface IHttpClient {
+export interface IHttpClient<TState extends object = Record<string, unknown>> {
+  /**
+   * axios 风格的请求/响应拦截器，对任意 adapter 生效
+   */
+  readonly interceptors: HttpClientInterceptors;
+
+  /**
+   * 注册错误处理函数
+   *
+   * 处理函数中设置 `ctx.response` 即视为恢复
+   *
+   * @returns 注销函数
+   */
+  onError(handler: ErrorHandler<HttpContext<unknown, unknown, TState>>): MiddlewareDisposer;
+
+  /**
+   * 销毁客户端：释放自身中间件持有的资源（定时器、缓存等）
+   *
+   * 之后发起的请求都会失败；父引擎（`engine` 选项）不受影响
+   */
+  dispose(): Promise<void>;
+
+  /**
+   * 派生子 client：共享 adapter，默认配置与父 client 合并，中间件叠加在父 client 之内
+   *
+   * 父 client 的中间件、拦截器与错误处理函数实时继承（之后的变更同样对子 client 生效）；
+   * 子 client 自身的变更不影响父 client。父 client dispose 后子 client 同样不可再用
+   */
+  extend<M extends readonly MiddlewareLike<HttpContext<unknown, unknown, TState>>[] | []>(
+    options?: HttpClientExtendOptions<HttpContext<unknown, unknown, TState>, M> &
+      RequireStateChain<HttpContext<unknown, unknown, TState>, M>
+  ): IHttpClient<TState>;
+
+  /**
+   * 注册中间件，对之后发起的请求生效（进行中的请求沿用开始时的中间件链）
+   *
+   * state 契约的 requires 未被 TState 满足时编译报错（见 `IMiddlewareEngine.use()`）
+   *
+   * @param middleware 中间件函数或对象形式的中间件
+   * @param options 注册名与插入位置（`before` / `after`）
+   * @returns 注销函数
+   */
+  use<M extends MiddlewareLike<HttpContext<unknown, unknown, TState>>>(
+    middleware: M & RequireState<HttpContext<unknown, unknown, TState>, StateRequiresOf<M>>,
+    options?: UseMiddlewareOptions
+  ): MiddlewareDisposer;
+
+  /**
+   * 注册声明了 state 契约的中间件，返回累积了 provides 的 client 类型
+   *
+   * 运行时等价于 `use()`（返回同一个 client）；requires 未被满足时编译报错
+   *
+   * @example
+   * ```ts
+   * const client = createHttpClient({ adapter }).with(authMiddleware).with(auditMiddleware);
+   * ```
+   */
+  with<TRequires extends object = object, TProvides extends object = object>(
+    middleware: StatefulMiddleware<TRequires, TProvides, HttpContext<unknown, unknown, TState>> &
+      RequireState<HttpContext<unknown, unknown, TState>, TRequires>,
+    options?: UseMiddlewareOptions
+  ): IHttpClient<TState & TProvides>;
+
+  /**
+   * 移除 client 自身注册的中间件（不包含父引擎/父 client 的中间件），对之后发起的请求生效
+   *
+   * @param target 注册名或中间件本身
+   * @returns 是否移除成功
+   */
+  remove(target: string | MiddlewareLike<HttpContext<unknown, unknown, TState>>): boolean;
+
+  /**
+   * 当前的中间件链（最终执行顺序，含父级中间件与 `interceptors`）的只读快照
+   */
+  getPipeline(): ReadonlyArray<Readonly<MiddlewareEntry<HttpContext<unknown, unknown, TState>>>>;
+
   /**
    * 发送请求
+   *
+   * 请求失败时以 `RequestError` 的子类拒绝；编程错误以普通 Error 拒绝：
+   * client 已销毁（`HTTP client has been disposed`）、中间件链结束时没有响应（`No response received`）
    */
+  request<V extends ResponseValidator, TReqData = unknown>(
+    config: ValidatedRequestConfig<V, TReqData>,
+    extraMiddlewares?: Middleware<HttpContext<TReqData, InferValidated<V>, TState>>[]
+  ): Promise<ResponseData<InferValidated<V>>>;
   request<TReqData = unknown, TResData = unknown>(
     config: RequestConfig<TReqData>,
-    extraMiddlewares?: Middleware<HttpContext<TReqData, TResData>>[]
+    extraMiddlewares?: Middleware<HttpContext<TReqData, TResData, TState>>[]
   ): Promise<ResponseData<TResData>>;
 
   /**
    * GET 请求
+   *
+   * 传入 `validate` 时响应数据类型由校验器推导
    */
+  get<V extends ResponseValidator>(
+    url: string,
+    config: Omit<RequestConfig, 'url' | 'method'> & { validate: V }
+  ): Promise<ResponseData<InferValidated<V>>>;
   get<TResData = unknown>(
     url: string,
     config?: Omit<RequestConfig, 'url' | 'method'>
@@ -190,6 +914,11 @@ export interface IHttpClient {
   /**
    * POST 请求
    */
+  post<V extends ResponseValidator, TReqData = unknown>(
+    url: string,
+    data: TReqData | undefined,
+    config: Omit<RequestConfig, 'url' | 'method' | 'data'> & { validate: V }
+  ): Promise<ResponseData<InferValidated<V>>>;
   post<TReqData = unknown, TResData = unknown>(
     url: string,
     data?: TReqData,
@@ -199,6 +928,11 @@ export interface IHttpClient {
   /**
    * PUT 请求
    */
+  put<V extends ResponseValidator, TReqData = unknown>(
+    url: string,
+    data: TReqData | undefined,
+    config: Omit<RequestConfig, 'url' | 'method' | 'data'> & { validate: V }
+  ): Promise<ResponseData<InferValidated<V>>>;
   put<TReqData = unknown, TResData = unknown>(
     url: string,
     data?: TReqData,
@@ -208,6 +942,10 @@ export interface IHttpClient {
   /**
    * DELETE 请求
    */
+  delete<V extends ResponseValidator>(
+    url: string,
+    config: Omit<RequestConfig, 'url' | 'method'> & { validate: V }
+  ): Promise<ResponseData<InferValidated<V>>>;
   delete<TResData = unknown>(
     url: string,
     config?: Omit<RequestConfig, 'url' | 'method'>
@@ -216,6 +954,11 @@ export interface IHttpClient {
   /**
    * PATCH 请求
    */
+  patch<V extends ResponseValidator, TReqData = unknown>(
+    url: string,
+    data: TReqData | undefined,
+    config: Omit<RequestConfig, 'url' | 'method' | 'data'> & { validate: V }
+  ): Promise<ResponseData<InferValidated<V>>>;
   patch<TReqData = unknown, TResData = unknown>(
     url: string,
     data?: TReqData,
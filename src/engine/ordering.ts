@@ -0,0 +1,209 @@
+/**
+ * 中间件排序
+ *
+ * 根据阶段（phase）与 runsBefore / runsAfter 约束对中间件做稳定拓扑排序：
+ * - 无约束的中间件之间保持原有顺序
+ * - 约束中引用的名称不存在时忽略（例如 per-request 中间件未出现在本次请求中）
+ * - 约束存在环时抛出错误
+ */
+
+import type { MiddlewareEntry, MiddlewarePhase } from './middlewareTypes';
+import { MIDDLEWARE_PHASES, getMiddlewareMeta } from './middlewareMeta';
+
+const DEFAULT_PHASE_RANK = MIDDLEWARE_PHASES.indexOf('default');
+
+/**
+ * 是否为位于 default 之内的阶段
+ */
+function isInnerPhase(phase: MiddlewarePhase | undefined): boolean {
+  return phase !== undefined && MIDDLEWARE_PHASES.indexOf(phase) > DEFAULT_PHASE_RANK;
+}
+
+/**
+ * 判断中间件列表是否声明了任何排序约束
+ */
+export function hasOrderingConstraints<C, R>(entries: MiddlewareEntry<C, R>[]): boolean {
+  return entries.some((entry) => {
+    const meta = getMiddlewareMeta(entry.middleware);
+    return Boolean(meta.phase || meta.runsBefore?.length || meta.runsAfter?.length);
+  });
+}
+
+/**
+ * 已排序的全局中间件中 per-request 中间件的插入位置
+ *
+ * 位于 default 之内阶段（如 `transport-near`）的中间件排序后总在末尾，per-request 中间件插在它们之外；
+ * 没有这类中间件时为列表长度
+ */
+export function findLayerIndex<C, R>(globalEntries: MiddlewareEntry<C, R>[]): number {
+  const index = globalEntries.findIndex((entry) => isInnerPhase(getMiddlewareMeta(entry.middleware).phase));
+  return index === -1 ? globalEntries.length : index;
+}
+
+/**
+ * 创建「全局中间件能否与 per-request 中间件分层执行」的判断函数
+ *
+ * 满足以下条件时，合并排序的结果等价于「全局（已排序）在 `findLayerIndex()` 处插入 per-request（原顺序）」：
+ * - per-request 中间件未声明任何约束（即 default 阶段）
+ * - 插入位置之后的全局中间件都位于 default 之内的阶段（排序后总是成立）
+ * - 全局中间件的 runsBefore / runsAfter 未引用任何 per-request 中间件
+ *
+ * 全局部分的检查在创建时完成，返回的函数只检查 per-request 中间件
+ */
+export function createLayerCheck<C, R>(
+  globalEntries: MiddlewareEntry<C, R>[]
+): (extraEntries: MiddlewareEntry<C, R>[]) => boolean {
+  const layerIndex = findLayerIndex(globalEntries);
+  const referenced = new Set<string>();
+  for (const [index, entry] of globalEntries.entries()) {
+    const meta = getMiddlewareMeta(entry.middleware);
+    if (index >= layerIndex && !isInnerPhase(meta.phase)) {
+      return () => false;
+    }
+    meta.runsBefore?.forEach((name) => referenced.add(name));
+    meta.runsAfter?.forEach((name) => referenced.add(name));
+  }
+
+  return (extraEntries) =>
+    !hasOrderingConstraints(extraEntries) &&
+    extraEntries.every((entry) => entry.name === undefined || !referenced.has(entry.name));
+}
+
+function describeEntry<C, R>(entry: MiddlewareEntry<C, R>, index: number): string {
+  return entry.name ?? `<anonymous#${index}>`;
+}
+
+/**
+ * 查找剩余节点中的一个环，用于生成错误信息
+ */
+function findCycle(edges: Set<number>[], remaining: Set<number>): number[] {
+  const visiting: number[] = [];
+  const visited = new Set<number>();
+
+  function visit(node: number): number[] | undefined {
+    const position = visiting.indexOf(node);
+    if (position !== -1) {
+      return [...visiting.slice(position), node];
+    }
+    if (visited.has(node)) {
+      return undefined;
+    }
+    visited.add(node);
+    visiting.push(node);
+    for (const target of edges[node]) {
+      if (remaining.has(target)) {
+        const cycle = visit(target);
+        if (cycle) return cycle;
+      }
+    }
+    visiting.pop();
+    return undefined;
+  }
+
+  for (const node of remaining) {
+    const cycle = visit(node);
+    if (cycle) return cycle;
+  }
+  return [];
+}
+
+/**
+ * 把节点插入按编号降序排列的可用列表（末尾为编号最小的节点）
+ */
+function insertReady(ready: number[], node: number): void {
+  let low = 0;
+  let high = ready.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (ready[middle] > node) low = middle + 1;
+    else high = middle;
+  }
+  ready.splice(low, 0, node);
+}
+
+/**
+ * 按阶段与约束排序中间件
+ *
+ * 阶段约束通过相邻阶段之间的虚拟节点表达（阶段内的节点 → 虚拟节点 → 下一阶段的节点），
+ * 边数与中间件数量成线性关系
+ *
+ * @param entries 合并后的中间件列表（全局 + per-request）
+ * @returns 排序后的新数组
+ *
+ * @throws 约束存在环时抛出，错误信息包含环上的中间件名称
+ */
+export function sortMiddlewares<C, R>(entries: MiddlewareEntry<C, R>[]): MiddlewareEntry<C, R>[] {
+  const count = entries.length;
+  const metas = entries.map((entry) => getMiddlewareMeta(entry.middleware));
+  const ranks = metas.map((meta) =>
+    meta.phase ? MIDDLEWARE_PHASES.indexOf(meta.phase) : DEFAULT_PHASE_RANK
+  );
+
+  // 节点 0..count-1 为中间件，count + k 为阶段 k 与阶段 k+1 之间的虚拟节点
+  // edges[a] 包含 b 表示 a 必须位于 b 之外
+  const total = count + MIDDLEWARE_PHASES.length - 1;
+  const edges: Set<number>[] = Array.from({ length: total }, () => new Set<number>());
+  for (let barrier = count; barrier < total - 1; barrier++) {
+    edges[barrier].add(barrier + 1);
+  }
+
+  const indicesByName = new Map<string, number[]>();
+  entries.forEach((entry, index) => {
+    if (entry.name === undefined) return;
+    const indices = indicesByName.get(entry.name) ?? [];
+    indices.push(index);
+    indicesByName.set(entry.name, indices);
+  });
+
+  for (let a = 0; a < count; a++) {
+    if (ranks[a] > 0) edges[count + ranks[a] - 1].add(a);
+    if (count + ranks[a] < total) edges[a].add(count + ranks[a]);
+
+    for (const name of metas[a].runsBefore ?? []) {
+      for (const b of indicesByName.get(name) ?? []) {
+        if (b !== a) edges[a].add(b);
+      }
+    }
+    for (const name of metas[a].runsAfter ?? []) {
+      for (const b of indicesByName.get(name) ?? []) {
+        if (b !== a) edges[b].add(a);
+      }
+    }
+  }
+
+  const inDegree = new Array<number>(total).fill(0);
+  for (const targets of edges) {
+    for (const target of targets) {
+      inDegree[target]++;
+    }
+  }
+
+  // Kahn 算法，每次选取原始位置最靠前的可用节点以保持稳定
+  // （虚拟节点可用时，之前阶段的节点均已取出、之后阶段的节点均不可用，因此不影响稳定性）
+  const remaining = new Set<number>(Array.from({ length: total }, (_, node) => node));
+  const ready: number[] = [];
+  for (let node = total - 1; node >= 0; node--) {
+    if (inDegree[node] === 0) ready.push(node);
+  }
+
+  const sorted: MiddlewareEntry<C, R>[] = [];
+  while (remaining.size > 0) {
+    const next = ready.pop();
+
+    if (next === undefined) {
+      const cycle = findCycle(edges, remaining)
+        .filter((node) => node < count)
+        .map((node) => describeEntry(entries[node], node))
+        .join(' -> ');
+      throw new Error(`Middleware ordering cycle detected: ${cycle}`);
+    }
+
+    remaining.delete(next);
+    if (next < count) sorted.push(entries[next]);
+    for (const target of edges[next]) {
+      if (--inDegree[target] === 0) insertReady(ready, target);
+    }
+  }
+
+  return sorted;
+}
@@ -0,0 +1,45 @@
+/**
+ * State 契约
+ *
+ * 契约只存在于类型层面：`stateful()` 原样返回中间件，不做任何运行时包装
+ */
+
+import type { HttpContext, Middleware, StatefulMiddleware } from './middlewareTypes';
+
+/**
+ * 为中间件声明 state 契约
+ *
+ * 中间件内部可直接读取 requires 中的键，并写入 provides 中的键；
+ * 通过 `engine.with()` 注册后，引擎的上下文类型会累积 provides
+ *
+ * @template TRequires 需要由更外层中间件提供的键
+ * @template TProvides 本中间件写入的键
+ * @template C 基础上下文类型，默认为 HttpContext
+ *
+ * @example
+ * ```ts
+ * const auth = stateful<object, { user: User }>(async (ctx, next) => {
+ *   ctx.state.user = await loadUser();
+ *   await next();
+ * });
+ *
+ * const audit = stateful<{ user: User }>(async (ctx, next) => {
+ *   log(ctx.state.user.id);
+ *   await next();
+ * });
+ *
+ * const engine = createMiddlewareEngine<HttpContext>().with(auth).with(audit);
+ * ```
+ */
+export function stateful<
+  TRequires extends object = object,
+  TProvides extends object = object,
+  C extends { state: object } = HttpContext,
+>(
+  middleware: Middleware<C & { state: TRequires & Partial<TProvides> }>
+): StatefulMiddleware<TRequires, TProvides, C> {
+  if (typeof middleware !== 'function') {
+    throw new TypeError('Middleware must be a function');
+  }
+  return middleware as StatefulMiddleware<TRequires, TProvides, C>;
+}
@@ -0,0 +1,185 @@
+/**
+ * URL 构建工具
+ *
+ * adapter 与中间件共用：展开路径模板（`RequestConfig.pathParams`）、基于 baseURL 解析、拼接 query，
+ * 中间件可以通过 `buildUrl(ctx.request)` 得到最终请求的 URL
+ */
+
+import type { ParamsSerializer, ParamsSerializerOptions, PathParamValue, RequestConfig } from './middlewareTypes';
+
+/**
+ * 路径模板中的参数：`/:name`、可选参数 `/:name?` 与 `{name}`
+ */
+const PATH_PARAM_PATTERN = /\/:(\w+)(\?)?(?=[/?#.]|$)|\{(\w+)\}/g;
+
+/**
+ * 是否为绝对 URL（带协议，如 `https:`、`data:`）
+ */
+function isAbsoluteUrl(url: string): boolean {
+  return /^[a-z][a-z\d+\-.]*:/i.test(url);
+}
+
+/**
+ * 是否为协议相对 URL（`//host/path`）
+ */
+function isProtocolRelativeUrl(url: string): boolean {
+  return url.startsWith('//');
+}
+
+/**
+ * 展开路径模板：参数值逐段经过 `encodeURIComponent`（`/`、`?`、`#` 等不会破坏路径结构）
+ *
+ * - `/users/:id`、`/users/{id}`：缺少参数时抛出 TypeError
+ * - `/users/:id?`：缺少参数时移除该段
+ *
+ * @example
+ * ```ts
+ * interpolatePath('/users/:id/files/{name}', { id: 1, name: 'a b.txt' }); // '/users/1/files/a%20b.txt'
+ * ```
+ */
+export function interpolatePath(
+  template: string,
+  params: Record<string, PathParamValue | null | undefined> = {}
+): string {
+  return template.replace(PATH_PARAM_PATTERN, (_segment, colonName?: string, optional?: string, braceName?: string) => {
+    const name = (colonName ?? braceName) as string;
+    const value = params[name];
+    if (value === undefined || value === null) {
+      if (optional) return '';
+      throw new TypeError(`Missing path parameter "${name}" for "${template}"`);
+    }
+    const encoded = encodeURIComponent(String(value));
+    return colonName !== undefined ? '/' + encoded : encoded;
+  });
+}
+
+/**
+ * 基于 baseURL 解析请求 URL
+ *
+ * - 绝对 URL 原样返回
+ * - 协议相对 URL（`//cdn.example.com/a`）沿用 baseURL 的协议，baseURL 没有协议时原样返回
+ * - 相对 URL 拼接在 baseURL 之后（保留 baseURL 的路径前缀，如 `/v1`），以 `?`、`#` 开头时直接追加
+ */
+export function resolveUrl(url: string, baseURL?: string): string {
+  if (!baseURL || isAbsoluteUrl(url)) {
+    return url;
+  }
+  if (isProtocolRelativeUrl(url)) {
+    const protocol = /^([a-z][a-z\d+\-.]*:)\/\//i.exec(baseURL)?.[1];
+    return protocol ? protocol + url : url;
+  }
+  if (url === '') {
+    return baseURL;
+  }
+  if (url.startsWith('?') || url.startsWith('#')) {
+    return baseURL + url;
+  }
+  return baseURL.replace(/\/+$/, '') + '/' + url.replace(/^\/+/, '');
+}
+
+/**
+ * 是否为普通对象（按嵌套格式展开）
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * 把参数展开为 `[key, value]` 对：跳过 undefined / null，数组与嵌套对象按选项展开
+ */
+function collectPairs(
+  key: string,
+  value: unknown,
+  options: Required<ParamsSerializerOptions>,
+  pairs: [string, string][]
+): void {
+  if (value === undefined || value === null) {
+    return;
+  }
+  if (value instanceof Date) {
+    pairs.push([key, options.serializeDate(value)]);
+    return;
+  }
+  if (Array.isArray(value)) {
+    if (options.arrayFormat === 'comma') {
+      const items = value
+        .filter((item) => item !== undefined && item !== null)
+        .map((item) => (item instanceof Date ? options.serializeDate(item) : String(item)));
+      if (items.length > 0) pairs.push([key, items.join(',')]);
+      return;
+    }
+    value.forEach((item, index) => {
+      const itemKey =
+        options.arrayFormat === 'brackets' ? `${key}[]`
+          : options.arrayFormat === 'indices' ? `${key}[${index}]`
+            : key;
+      collectPairs(itemKey, item, options, pairs);
+    });
+    return;
+  }
+  if (isPlainObject(value)) {
+    for (const [childKey, child] of Object.entries(value)) {
+      collectPairs(options.nesting === 'dots' ? `${key}.${childKey}` : `${key}[${childKey}]`, child, options, pairs);
+    }
+    return;
+  }
+  pairs.push([key, String(value)]);
+}
+
+/**
+ * 序列化 query 参数（不含 `?`）
+ *
+ * 传入函数时直接调用；否则按选项展开：跳过 undefined / null，数组默认重复键名（`ids=1&ids=2`），
+ * 嵌套对象默认使用方括号（`user[name]=a`），Date 默认转为 ISO 字符串
+ *
+ * @example
+ * ```ts
+ * serializeParams({ ids: [1, 2], user: { name: 'a' } }, { arrayFormat: 'brackets', nesting: 'dots' });
+ * // 'ids%5B%5D=1&ids%5B%5D=2&user.name=a'
+ * ```
+ */
+export function serializeParams(params: Record<string, unknown>, serializer: ParamsSerializer = {}): string {
+  if (typeof serializer === 'function') {
+    return serializer(params);
+  }
+  const options: Required<ParamsSerializerOptions> = {
+    arrayFormat: serializer.arrayFormat ?? 'repeat',
+    nesting: serializer.nesting ?? 'brackets',
+    serializeDate: serializer.serializeDate ?? ((date) => date.toISOString()),
+  };
+  const pairs: [string, string][] = [];
+  for (const [key, value] of Object.entries(params)) {
+    collectPairs(key, value, options, pairs);
+  }
+  return new URLSearchParams(pairs).toString();
+}
+
+/**
+ * 把 query 字符串追加到 URL（位于 hash 之前，已有 query 时以 `&` 连接）
+ */
+export function appendQuery(url: string, query: string): string {
+  if (!query) {
+    return url;
+  }
+  const hashIndex = url.indexOf('#');
+  const base = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  const hash = hashIndex === -1 ? '' : url.slice(hashIndex);
+  const separator = !base.includes('?') ? '?' : /[?&]$/.test(base) ? '' : '&';
+  return base + separator + query + hash;
+}
+
+/**
+ * 计算请求的最终 URL：展开 `pathParams` → 基于 baseURL 解析 → 拼接 `params`
+ *
+ * 请求配置中的 `baseURL`、`paramsSerializer` 优先于传入的默认值（如 adapter 配置）；
+ * 未提供 `pathParams` 时 URL 中的 `:name` 保持原样
+ */
+export function buildUrl(config: RequestConfig, baseURL?: string, paramsSerializer?: ParamsSerializer): string {
+  const path = config.pathParams ? interpolatePath(config.url, config.pathParams) : config.url;
+  const url = resolveUrl(path, config.baseURL || baseURL);
+  return config.params
+    ? appendQuery(url, serializeParams(config.params, config.paramsSerializer ?? paramsSerializer))
+    : url;
+}
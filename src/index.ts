@@ -21,6 +21,56 @@ export {
   
   // compose 函数
   composeMiddlewares,
+
+  // 中间件元信息
+  defineMiddleware,
+  getMiddlewareMeta,
+  MIDDLEWARE_PHASES,
+
+  // State 契约
+  stateful,
+
+  // 条件组合器
+  when,
+  unless,
+  branch,
+  route,
+
+  // 对冲执行
+  hedge,
+
+  // URL 构建
+  buildUrl,
+  interpolatePath,
+  resolveUrl,
+  serializeParams,
+
+  // 请求体编码
+  encodeBody,
+  isBodyInit,
+
+  // 响应体解码
+  decodeBody,
+  hasResponseBody,
+
+  // 错误类型
+  MiddlewareTimeoutError,
+  RequestError,
+  HttpError,
+  TimeoutError,
+  NetworkError,
+  AbortError,
+  ParseError,
+  ResponseValidationError,
+  isRequestError,
+  isHttpError,
+  isTimeoutError,
+  isNetworkError,
+  isAbortError,
+  isParseError,
+  isResponseValidationError,
+  parseProblemDetails,
+  defaultValidateStatus,
 } from './engine';
 
 // Engine 类型导出
@@ -28,28 +78,102 @@ export type {
   // 基础类型
   NextFunction,
   Middleware,
+  MiddlewarePhase,
+  MiddlewareMeta,
+  MiddlewareObject,
+  MiddlewareLike,
+  ErrorHandler,
+  ComposeOptions,
+  MiddlewareEnterEvent,
+  MiddlewareExitEvent,
+  MiddlewareTraceEvent,
+  MiddlewareTraceHook,
+  MiddlewareDiagnostic,
+  MiddlewareDiagnosticsOptions,
+
+  // State 契约
+  StateContract,
+  StatefulMiddleware,
+  StateOf,
+  MissingStateKeys,
+  RequireState,
+  StateRequiresOf,
+  StateProvidesOf,
+  RequireStateChain,
   
   // Engine 相关
   MiddlewareEngineOptions,
   IMiddlewareEngine,
+  MiddlewareEntry,
+  UseMiddlewareOptions,
+  MiddlewareDisposer,
   
   // HTTP 相关默认类型
   HttpMethod,
   RequestConfig,
   ResponseData,
+  ValidateStatus,
+  ResponseSchema,
+  ResponseValidator,
+  InferValidated,
+  PathParamValue,
+  ArrayFormat,
+  ParamsSerializer,
+  ParamsSerializerOptions,
+  BodyEncoder,
+  ResponseDecoder,
+  ValidatedRequestConfig,
   HttpContext,
   HttpAdapter,
   
   // HTTP Client 相关
   HttpClientOptions,
   IHttpClient,
+  HttpClientExtendOptions,
+  HttpClientInterceptors,
+  InterceptorManager,
+  InterceptorFulfilled,
+  InterceptorRejected,
+
+  // 条件组合器
+  MiddlewarePredicate,
+  RouteContext,
+  RouteMatcher,
+  RouteParams,
+
+  // 对冲执行
+  HedgeContext,
+  HedgeOptions,
+
+  // 请求体编码
+  EncodeBodyOptions,
+  EncodedBody,
+
+  // 响应体解码
+  DecodeBodyOptions,
+
+  // 错误类型
+  ProblemDetails,
+  RequestErrorOptions,
+  HttpErrorOptions,
+  ParseErrorOptions,
+  ResponseValidationErrorOptions,
 } from './engine';
 
 // ============================================================================
 // HTTP Client 导出
 // ============================================================================
 
-export { createHttpClient } from './client';
+export { createHttpClient, defineApi, typed } from './client';
+
+export type {
+  ApiClient,
+  EndpointArgs,
+  EndpointDefinition,
+  EndpointMethod,
+  EndpointResponse,
+  PathParams,
+} from './client';
 
 // ============================================================================
 // Adapters 导出
@@ -6,28 +6,66 @@
  *
  * 用法示例：
  * ```ts
- * import { cacheMiddleware } from './engine';
- * engine.use(cacheMiddleware);
+ * import { createCacheMiddleware } from './engine';
+ * engine.use(createCacheMiddleware());
+ *
+ * // 销毁引擎时清空缓存
+ * await engine.dispose();
  * ```
  */
 import type { Middleware, HttpContext } from '../engine/middlewareTypes';
+import { defineMiddleware } from '../engine/middlewareMeta';
+import { buildUrl } from '../engine/url';
 
-// 简单内存缓存实现（仅支持 GET 请求）
-const cacheStore = new Map<string, any>();
+export interface CacheOptions {
+  /** 注册名（默认不命名，可以注册多个实例） */
+  name?: string;
+}
 
-export const cacheMiddleware: Middleware<HttpContext> = async (ctx, next) => {
-  const { method, url, params } = ctx.request;
-  if (method === 'GET') {
-    const key = url + JSON.stringify(params || {});
-    if (cacheStore.has(key)) {
-      ctx.response = cacheStore.get(key);
-      return;
-    }
-    await next();
-    if (ctx.response) {
-      cacheStore.set(key, ctx.response);
+/**
+ * 以 cacheStore 缓存 GET 响应的中间件
+ */
+function cacheResponses(cacheStore: Map<string, any>): Middleware<HttpContext> {
+  return async (ctx, next) => {
+    if (ctx.request.method === 'GET') {
+      // 以最终 URL（展开路径参数、拼接 query 后）作为缓存键
+      const key = buildUrl(ctx.request);
+      if (cacheStore.has(key)) {
+        ctx.response = cacheStore.get(key);
+        return;
+      }
+      await next();
+      if (ctx.response) {
+        cacheStore.set(key, ctx.response);
+      }
+    } else {
+      await next();
     }
-  } else {
-    await next();
-  }
-};
+  };
+}
+
+/**
+ * 创建缓存中间件
+ *
+ * 每个实例持有独立的内存缓存（仅支持 GET 请求），引擎 dispose 时清空
+ */
+export function createCacheMiddleware(options: CacheOptions = {}): Middleware<HttpContext> {
+  const cacheStore = new Map<string, any>();
+
+  // 声明为 cache 阶段，保证位于重试等默认阶段中间件之外
+  return defineMiddleware<HttpContext>(cacheResponses(cacheStore), {
+    name: options.name,
+    phase: 'cache',
+    dispose: () => cacheStore.clear(),
+  });
+}
+
+/**
+ * 共享的默认缓存中间件实例
+ *
+ * 所有使用它的引擎共享同一份缓存，且不随任何引擎 dispose 清空；
+ * 需要独立缓存或随引擎释放时使用 `createCacheMiddleware()`
+ */
+export const cacheMiddleware: Middleware<HttpContext> = defineMiddleware<HttpContext>(cacheResponses(new Map()), {
+  phase: 'cache',
+});
@@ -2,7 +2,7 @@
  * 重试中间件
  *
  * 作用：请求失败时自动重试，提升健壮性
- * 支持自定义重试次数和重试间隔
+ * 支持自定义重试次数和重试间隔；请求取消（ctx.signal）后立即停止重试
  *
  * 用法示例：
  * ```ts
@@ -10,30 +10,60 @@
  * engine.use(createRetryMiddleware({ retries: 3, delay: 500 }));
  * ```
  */
-import type { Middleware, HttpContext } from '../engine/middlewareTypes';
+import type { Middleware, HttpContext, NextFunction } from '../engine/middlewareTypes';
+import { defineMiddleware } from '../engine/middlewareMeta';
+import { AbortError } from '../engine/errors';
+import { sleep, throwIfAborted } from '../engine/abort';
+import { forkNext } from '../engine/fork';
 
 export interface RetryOptions {
   /** 重试次数（默认2次） */
   retries?: number;
   /** 每次重试的延迟(ms)，默认200 */
   delay?: number;
+  /** 注册名（默认不命名，可以注册多个实例） */
+  name?: string;
+}
+
+/**
+ * 重新执行下游：compose 不允许重复调用 next()，因此以浅拷贝的上下文分叉执行（见 `forkNext()`），
+ * 结束后把下游改动过的字段（response、error 等）合并回原上下文
+ */
+async function rerun(ctx: HttpContext, next: NextFunction): Promise<void> {
+  const snapshot: Record<string, unknown> = { ...ctx };
+  const attempt: Record<string, unknown> = { ...ctx };
+  try {
+    await forkNext(next, attempt as unknown as HttpContext);
+  } finally {
+    for (const [key, value] of Object.entries(attempt)) {
+      if (value !== snapshot[key]) {
+        (ctx as unknown as Record<string, unknown>)[key] = value;
+      }
+    }
+  }
 }
 
 export function createRetryMiddleware(options: RetryOptions = {}): Middleware<HttpContext> {
-  const { retries = 2, delay = 200 } = options;
-  return async (ctx, next) => {
+  const { retries = 2, delay = 200, name } = options;
+  return defineMiddleware<HttpContext>(async (ctx, next) => {
     let lastError: unknown;
     for (let i = 0; i <= retries; i++) {
+      throwIfAborted(ctx.signal);
       try {
-        await next();
+        // 清除上一次尝试记录的错误
+        ctx.error = undefined;
+        await (i === 0 ? next() : rerun(ctx, next));
         if (!ctx.error) return;
       } catch (err) {
+        // 已取消的请求不再重试
+        throwIfAborted(ctx.signal);
+        if (err instanceof AbortError) throw err;
         lastError = err;
         if (i < retries && delay > 0) {
-          await new Promise((res) => setTimeout(res, delay));
+          await sleep(delay, ctx.signal);
         }
       }
     }
     if (lastError) throw lastError;
-  };
+  }, { name });
 }
@@ -2,7 +2,7 @@
  * 限流/节流中间件
  *
  * 作用：限制单位时间内的最大请求数，防止接口被滥用
- * 适合高并发场景下保护后端服务
+ * 适合高并发场景下保护后端服务；排队中的请求被取消（ctx.signal）时立即移出队列
  *
  * 用法示例：
  * ```ts
@@ -11,45 +11,81 @@
  * ```
  */
 import type { Middleware, HttpContext } from '../engine/middlewareTypes';
+import { defineMiddleware } from '../engine/middlewareMeta';
+import { createAbortError } from '../engine/abort';
 
 export interface ThrottleOptions {
   /** 单位时间内最大请求数（默认5） */
   limit?: number;
   /** 单位时间(ms)，默认1000 */
   interval?: number;
+  /** 注册名（默认不命名，可以注册多个实例） */
+  name?: string;
 }
 
 export function createThrottleMiddleware(options: ThrottleOptions = {}): Middleware<HttpContext> {
-  const { limit = 5, interval = 1000 } = options;
+  const { limit = 5, interval = 1000, name } = options;
   let queue: (() => void)[] = [];
   let timestamps: number[] = [];
+  // 排队中请求的 reject，以及尚未触发的唤醒定时器，dispose 时统一清理
+  const waiting = new Set<(error: Error) => void>();
+  const timers = new Set<ReturnType<typeof setTimeout>>();
 
   function clean() {
     const now = Date.now();
     timestamps = timestamps.filter((ts) => now - ts < interval);
   }
 
-  return async (_ctx, next) => {
-    await new Promise<void>((resolve) => {
+  return defineMiddleware<HttpContext>(async (ctx, next) => {
+    const { signal } = ctx;
+    await new Promise<void>((resolve, reject) => {
+      // 排队期间请求被取消：移出队列并以 AbortError 拒绝
+      const onAbort = () => {
+        queue = queue.filter((fn) => fn !== tryRequest);
+        waiting.delete(reject);
+        reject(createAbortError(signal as AbortSignal));
+      };
       const tryRequest = () => {
         clean();
         if (timestamps.length < limit) {
           timestamps.push(Date.now());
+          waiting.delete(reject);
+          signal?.removeEventListener('abort', onAbort);
           resolve();
         } else {
+          waiting.add(reject);
           queue.push(tryRequest);
         }
       };
+
+      if (signal?.aborted) {
+        reject(createAbortError(signal));
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
       tryRequest();
     });
     await next();
     // 请求完成后，尝试唤醒队列
-    setTimeout(() => {
+    const timer = setTimeout(() => {
+      timers.delete(timer);
       clean();
       while (queue.length && timestamps.length < limit) {
         const fn = queue.shift();
         if (fn) fn();
       }
     }, interval);
-  };
+    timers.add(timer);
+  }, {
+    name,
+    dispose: () => {
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+      const error = new Error('Throttle middleware has been disposed');
+      waiting.forEach((reject) => reject(error));
+      waiting.clear();
+      queue = [];
+      timestamps = [];
+    },
+  });
 }
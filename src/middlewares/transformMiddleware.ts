@@ -0,0 +1,312 @@
+/**
+ * 数据转换中间件
+ *
+ * 作用：发送前依次以请求转换器处理 `request.data` 与 `request.params`，收到响应后依次以响应转换器处理 `response.data`；
+ * 内置键名风格转换（`camelCaseKeys` / `snakeCaseKeys`）、日期还原（`reviveDates`）与大整数的无损 JSON 解析（`bigint`）
+ *
+ * 位于 `transport-near` 阶段、`interceptors` 之内：其余中间件与拦截器看到的都是转换后的数据
+ *
+ * 用法示例：
+ * ```ts
+ * import { createTransformMiddleware, camelCaseKeys, snakeCaseKeys, reviveDates } from './engine';
+ *
+ * engine.use(createTransformMiddleware({
+ *   request: [snakeCaseKeys()],
+ *   response: [camelCaseKeys({ exclude: ['metadata'] }), reviveDates()],
+ *   bigint: true,
+ * }));
+ *
+ * // 单次请求跳过：client.get('/raw', { transform: false })
+ * ```
+ */
+import type { Middleware, HttpContext, RequestConfig } from '../engine/middlewareTypes';
+import { defineMiddleware } from '../engine/middlewareMeta';
+import { isBodyInit } from '../engine/body';
+import { decodeBody } from '../engine/decode';
+
+/**
+ * 转换器的调用信息
+ */
+export interface TransformInfo {
+  /** 被转换的数据：请求体、query 参数或响应数据 */
+  target: 'data' | 'params' | 'response';
+  /** 本次请求的原始配置 */
+  request: RequestConfig;
+}
+
+/**
+ * 转换器：返回转换后的值（不应修改传入的值）
+ */
+export type Transformer = (value: unknown, info: TransformInfo) => unknown;
+
+export interface TransformOptions {
+  /** 请求转换器，依次作用于 `request.data`（`BodyInit` 除外）与 `request.params` */
+  request?: Transformer[];
+  /** 响应转换器，依次作用于 `response.data` */
+  response?: Transformer[];
+  /**
+   * 无损处理超出安全整数范围的整数：响应中的大整数解析为 bigint，请求体中的 bigint 序列化为 JSON 数字
+   *
+   * 开启后以 `responseType: 'text'` 发送请求（未指定或为 `json` 时），由本中间件按 Content-Type 解码响应，
+   * adapter 的 `responseDecoders` 不再生效
+   */
+  bigint?: boolean;
+  /** 注册名（默认不命名，可以注册多个实例） */
+  name?: string;
+}
+
+export interface KeyCaseOptions {
+  /** 保持原样的键（字符串精确匹配或正则），其值也不再递归转换 */
+  exclude?: Array<string | RegExp>;
+}
+
+export interface ReviveDatesOptions {
+  /** 需要还原的键名模式，默认匹配 `_at` / `At` / `_date` / `Date` 结尾的键 */
+  keys?: RegExp;
+}
+
+/**
+ * ISO 8601 日期 / 日期时间
+ */
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * JSON 数字字面量（从指定位置开始匹配）
+ */
+const NUMBER_PATTERN = /-?\d+(\.\d+)?([eE][+-]?\d+)?/y;
+
+/**
+ * 大整数在中间 JSON 文本中的占位前缀（`\u0000` 不会出现在未转义的 JSON 文本中）
+ */
+const BIGINT_MARKER = '\u0000bigint:';
+
+/**
+ * 是否为普通对象（递归转换的对象）
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * 解析 JSON，超出安全整数范围的整数解析为 bigint（其余与 `JSON.parse` 相同）
+ *
+ * 也可以作为 adapter 的 `responseDecoders` 使用
+ *
+ * @example
+ * ```ts
+ * parseJsonLossless('{"id":9007199254740993}'); // { id: 9007199254740993n }
+ * ```
+ */
+export function parseJsonLossless(text: string): unknown {
+  let marked = '';
+  let last = 0;
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '"') {
+      // 跳过字符串字面量（含转义字符）
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        i += text[i] === '\\' ? 2 : 1;
+      }
+      i++;
+      continue;
+    }
+    if (char === '-' || (char >= '0' && char <= '9')) {
+      NUMBER_PATTERN.lastIndex = i;
+      const match = NUMBER_PATTERN.exec(text);
+      if (!match) {
+        i++;
+        continue;
+      }
+      const [literal, fraction, exponent] = match;
+      if (!fraction && !exponent && !Number.isSafeInteger(Number(literal))) {
+        marked += `${text.slice(last, i)}"\\u0000bigint:${literal}"`;
+        last = i + literal.length;
+      }
+      i += literal.length;
+      continue;
+    }
+    i++;
+  }
+
+  if (last === 0) {
+    return JSON.parse(text);
+  }
+  return JSON.parse(marked + text.slice(last), (_key, value: unknown) =>
+    typeof value === 'string' && value.startsWith(BIGINT_MARKER) ? BigInt(value.slice(BIGINT_MARKER.length)) : value
+  );
+}
+
+/**
+ * 序列化为 JSON，bigint 输出为 JSON 数字（`JSON.stringify` 遇到 bigint 会抛错）
+ */
+export function stringifyJsonLossless(value: unknown): string {
+  const json = JSON.stringify(value, (_key, item: unknown) =>
+    typeof item === 'bigint' ? BIGINT_MARKER + item.toString() : item
+  ) as string | undefined;
+  return (json ?? '').replace(/"\\u0000bigint:(-?\d+)"/g, '$1');
+}
+
+/**
+ * 深度转换普通对象（含数组中的对象）的键名
+ */
+export function mapKeys(rename: (key: string) => string, options: KeyCaseOptions = {}): Transformer {
+  const { exclude = [] } = options;
+  const isExcluded = (key: string) =>
+    exclude.some((pattern) => (typeof pattern === 'string' ? pattern === key : pattern.test(key)));
+
+  const convert = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(convert);
+    if (!isPlainObject(value)) return value;
+
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      if (isExcluded(key)) result[key] = child;
+      else result[rename(key)] = convert(child);
+    }
+    return result;
+  };
+  return (value) => convert(value);
+}
+
+/**
+ * 键名转为 camelCase：`user_id` → `userId`（保留开头的下划线，如 `_id`）
+ */
+export function camelCaseKeys(options?: KeyCaseOptions): Transformer {
+  // 不使用后行断言（Safari 16.4 之前不支持），改为检查分隔符前的字符
+  return mapKeys(
+    (key) => key.replace(/[_-]+([a-zA-Z\d])/g, (match, char: string, offset: number) =>
+      offset > 0 && /[a-zA-Z\d]/.test(key[offset - 1]) ? char.toUpperCase() : match
+    ),
+    options
+  );
+}
+
+/**
+ * 键名转为 snake_case：`userId` → `user_id`，`HTMLParser` → `html_parser`
+ */
+export function snakeCaseKeys(options?: KeyCaseOptions): Transformer {
+  return mapKeys(
+    (key) =>
+      key
+        .replace(/([a-z\d])([A-Z])/g, '$1_$2')
+        .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+        .replace(/-/g, '_')
+        .toLowerCase(),
+    options
+  );
+}
+
+/**
+ * 把键名匹配 `keys` 的 ISO 8601 字符串还原为 Date（无效日期保持原样）
+ */
+export function reviveDates(options: ReviveDatesOptions = {}): Transformer {
+  const { keys = /(?:_at|At|_date|Date)$/ } = options;
+
+  const revive = (value: unknown, key?: string): unknown => {
+    if (Array.isArray(value)) return value.map((item) => revive(item, key));
+    if (isPlainObject(value)) {
+      const result: Record<string, unknown> = {};
+      for (const [childKey, child] of Object.entries(value)) {
+        result[childKey] = revive(child, childKey);
+      }
+      return result;
+    }
+    if (typeof value === 'string' && key !== undefined && keys.test(key) && ISO_DATE_PATTERN.test(value)) {
+      const date = new Date(value);
+      return Number.isNaN(date.getTime()) ? value : date;
+    }
+    return value;
+  };
+  return (value) => revive(value);
+}
+
+/**
+ * 依次执行转换器
+ */
+function applyTransformers(transformers: Transformer[], value: unknown, info: TransformInfo): unknown {
+  return transformers.reduce((current, transformer) => transformer(current, info), value);
+}
+
+/**
+ * 请求体是否按 JSON 发送（未设置 Content-Type 或为 JSON 类型）
+ */
+function isJsonRequest(headers: Record<string, string> = {}): boolean {
+  const contentType = Object.entries(headers).find(([key]) => key.toLowerCase() === 'content-type')?.[1];
+  if (contentType === undefined) return true;
+  const mimeType = contentType.split(';')[0].trim().toLowerCase();
+  return mimeType === 'application/json' || mimeType.endsWith('+json');
+}
+
+/**
+ * 转换请求配置（返回新的配置，不修改原配置）
+ */
+function transformRequest(request: RequestConfig, transformers: Transformer[], bigint: boolean): RequestConfig {
+  const result = { ...request };
+
+  if (request.data !== undefined && !isBodyInit(request.data)) {
+    result.data = applyTransformers(transformers, request.data, { target: 'data', request });
+    if (bigint && isJsonRequest(request.headers)) {
+      result.data = stringifyJsonLossless(result.data);
+      if (!Object.keys(request.headers ?? {}).some((key) => key.toLowerCase() === 'content-type')) {
+        result.headers = { ...request.headers, 'Content-Type': 'application/json' };
+      }
+    }
+  }
+  if (request.params) {
+    result.params = applyTransformers(transformers, request.params, { target: 'params', request }) as Record<string, unknown>;
+  }
+
+  return result;
+}
+
+/**
+ * 创建数据转换中间件
+ *
+ * 请求配置的 `transform` 为 false 时跳过，`{ request: false }` / `{ response: false }` 只跳过一侧；
+ * 下游执行期间 `ctx.request` 为转换后的配置，完成后恢复为原配置（重试等再次执行下游时不会重复转换）
+ */
+export function createTransformMiddleware(options: TransformOptions = {}): Middleware<HttpContext> {
+  const { request: requestTransformers = [], response: responseTransformers = [], bigint = false, name } = options;
+
+  return defineMiddleware<HttpContext>(async (ctx, next) => {
+    const original = ctx.request;
+    const { transform = true } = original;
+    const transformsRequest = transform === true || (transform !== false && transform.request !== false);
+    const transformsResponse = transform === true || (transform !== false && transform.response !== false);
+
+    let request = transformsRequest ? transformRequest(original, requestTransformers, bigint) : original;
+    const decodesLossless =
+      transformsResponse && bigint && (original.responseType === undefined || original.responseType === 'json');
+    if (decodesLossless) {
+      request = { ...request, responseType: 'text' };
+    }
+
+    ctx.request = request;
+    try {
+      await next();
+    } finally {
+      ctx.request = original;
+    }
+
+    if (!transformsResponse || !ctx.response) return;
+
+    let data = ctx.response.data;
+    if (decodesLossless && typeof data === 'string') {
+      data = decodeBody(data, ctx.response.headers, {
+        responseType: original.responseType,
+        parseJson: parseJsonLossless,
+        config: original,
+        status: ctx.response.status,
+      });
+    }
+    ctx.response = {
+      ...ctx.response,
+      data: applyTransformers(responseTransformers, data, { target: 'response', request: original }),
+    };
+  }, { ...(name !== undefined && { name }), phase: 'transport-near', runsAfter: ['interceptors'] });
+}
@@ -0,0 +1,94 @@
+/**
+ * 响应校验中间件
+ *
+ * 作用：在运行时校验响应数据，未通过时以 ResponseValidationError 拒绝
+ * 校验器可以是 `{ parse(input) }` 形式的 schema（zod 等）、类型守卫或谓词；
+ * schema 的解析结果（如 zod 的 transform / strip）替换 `response.data`
+ *
+ * 用法示例：
+ * ```ts
+ * import { createValidationMiddleware } from './engine';
+ *
+ * // 按请求校验：client.get('/users/1', { validate: UserSchema })
+ * engine.use(createValidationMiddleware());
+ *
+ * // 按接口校验
+ * engine.use(route({ method: 'GET', path: '/users/:id' }, createValidationMiddleware({ validate: UserSchema })));
+ * ```
+ */
+import type { Middleware, HttpContext, ResponseData, ResponseValidator } from '../engine/middlewareTypes';
+import { ResponseValidationError, toError } from '../engine/errors';
+
+export interface ValidationOptions {
+  /** 默认校验器，请求配置中的 `validate` 优先 */
+  validate?: ResponseValidator;
+}
+
+/**
+ * 从校验器抛出的错误中提取问题列表（zod / valibot 均为 `issues`）
+ */
+function getIssues(error: unknown): unknown[] {
+  const issues = (error as { issues?: unknown } | null)?.issues;
+  return Array.isArray(issues) ? issues : [];
+}
+
+/**
+ * 提取第一个问题的字段路径
+ *
+ * zod 的路径段为键本身，valibot 的路径段为 `{ key }` 对象
+ */
+function getIssuePath(issue: unknown): Array<string | number> {
+  const path = (issue as { path?: unknown } | null)?.path;
+  if (!Array.isArray(path)) return [];
+
+  return path.map((segment) => {
+    const key = typeof segment === 'object' && segment !== null && 'key' in segment
+      ? (segment as { key: unknown }).key
+      : segment;
+    return typeof key === 'number' ? key : String(key);
+  });
+}
+
+/**
+ * 执行校验，返回（schema 解析后的）响应数据
+ */
+function validateResponse(validator: ResponseValidator, response: ResponseData): unknown {
+  if (typeof validator === 'function') {
+    if (!validator(response.data)) {
+      throw new ResponseValidationError({ response });
+    }
+    return response.data;
+  }
+
+  try {
+    return validator.parse(response.data);
+  } catch (error) {
+    const issues = getIssues(error);
+    const [first] = issues;
+    const message = (first as { message?: unknown } | undefined)?.message;
+    throw new ResponseValidationError({
+      response,
+      path: getIssuePath(first),
+      issues,
+      reason: typeof message === 'string' ? message : toError(error).message,
+      cause: error,
+    });
+  }
+}
+
+/**
+ * 创建响应校验中间件
+ *
+ * 没有校验器（请求配置与选项均未提供）或没有响应时直接放行；
+ * 不带注册名，可以为多个接口分别注册（需要时以 `use(middleware, { name })` 命名）
+ */
+export function createValidationMiddleware(options: ValidationOptions = {}): Middleware<HttpContext> {
+  return async (ctx, next) => {
+    await next();
+
+    const validator = ctx.request.validate ?? options.validate;
+    if (!validator || !ctx.response) return;
+
+    ctx.response = { ...ctx.response, data: validateResponse(validator, ctx.response) };
+  };
+}
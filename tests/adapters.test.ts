@@ -10,8 +10,11 @@ vi.mock('@microsoft/fetch-event-source', () => ({
 }));
 
 import { createFetchAdapter, fetchAdapter } from '../src/adapters/fetch';
-import type { RequestConfig } from '../src/engine';
+import { AbortError, HttpError, NetworkError, ParseError, TimeoutError, type RequestConfig } from '../src/engine';
 import { createEventSourceAdapter, eventSourceAdapter } from '../src/adapters/eventSource';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import axios from 'axios';
 import { createAxiosAdapter, axiosAdapter } from '../src/adapters/axios';
 
 describe('fetchAdapter', () => {
@@ -136,6 +139,44 @@ describe('fetchAdapter', () => {
       );
     });
 
+    it('BodyInit 请求体应该原样发送，字符串不强制 JSON Content-Type', async () => {
+      const mockFetch = vi.fn(async () => new Response('{}', { status: 200 }));
+      const adapter = createFetchAdapter({ customFetch: mockFetch as typeof fetch });
+      const form = new URLSearchParams({ q: 'a b' });
+      const bytes = new Uint8Array([1, 2, 3]);
+
+      await adapter.request({ url: '/a', method: 'POST', data: form });
+      await adapter.request({ url: '/b', method: 'POST', data: bytes });
+      await adapter.request({ url: '/c', method: 'POST', data: 'raw text' });
+
+      const inits = mockFetch.mock.calls.map((call) => (call as unknown[])[1] as RequestInit);
+      expect(inits.map((init) => init.body)).toEqual([form, bytes, 'raw text']);
+      expect(inits.map((init) => init.headers)).toEqual([{}, {}, {}]);
+    });
+
+    it('should encode the body with adapter bodyEncoders by Content-Type', async () => {
+      const mockFetch = vi.fn(async () => new Response('{}', { status: 200 }));
+      const adapter = createFetchAdapter({
+        customFetch: mockFetch as typeof fetch,
+        bodyEncoders: { 'application/x-msgpack': (data) => new Uint8Array([Object.keys(data as object).length]) },
+      });
+
+      await adapter.request({
+        url: '/users',
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-msgpack' },
+        data: { a: 1, b: 2 },
+      });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        '/users',
+        expect.objectContaining({
+          body: new Uint8Array([2]),
+          headers: { 'Content-Type': 'application/x-msgpack' },
+        })
+      );
+    });
+
     it('should handle query params correctly', async () => {
       const mockFetch = vi.fn(async () => {
         return new Response('{}', { status: 200, statusText: 'OK' });
@@ -262,6 +303,59 @@ describe('fetchAdapter', () => {
       expect(response.data).toBe(textData);
     });
 
+    it('should decode the response body by Content-Type', async () => {
+      const bodies: Array<[string, string]> = [
+        ['123', 'text/plain'],
+        ['{"a":1}\n{"a":2}', 'application/x-ndjson'],
+        ['a,b', 'text/csv'],
+      ];
+      const mockFetch = vi.fn(async () => {
+        const [body, type] = bodies.shift()!;
+        return new Response(body, { status: 200, headers: { 'content-type': type } });
+      });
+      const adapter = createFetchAdapter({
+        customFetch: mockFetch as typeof fetch,
+        responseDecoders: { 'text/csv': (text) => text.split(',') },
+      });
+
+      const results = [];
+      for (let i = 0; i < 3; i++) {
+        results.push((await adapter.request({ url: '/data', method: 'GET' })).data);
+      }
+
+      expect(results).toEqual(['123', [{ a: 1 }, { a: 2 }], ['a', 'b']]);
+    });
+
+    it('204 与 HEAD 响应的 data 应该为 undefined', async () => {
+      const mockFetch = vi.fn(async (_url: string, init?: RequestInit) =>
+        init?.method === 'HEAD'
+          ? new Response('ignored', { status: 200, headers: { 'content-type': 'application/json' } })
+          : new Response(null, { status: 204, headers: { 'content-type': 'application/json' } })
+      );
+      const adapter = createFetchAdapter({ customFetch: mockFetch as unknown as typeof fetch });
+
+      const head = await adapter.request({ url: '/users', method: 'HEAD' });
+      const deleted = await adapter.request({ url: '/users/1', method: 'DELETE', responseType: 'json' });
+
+      expect(head.data).toBeUndefined();
+      expect(deleted.status).toBe(204);
+      expect(deleted.data).toBeUndefined();
+    });
+
+    it("responseType 'stream' should return the body stream", async () => {
+      const mockFetch = vi.fn(async () => new Response('chunk', { status: 200 }));
+      const adapter = createFetchAdapter({ customFetch: mockFetch as typeof fetch });
+
+      const response = await adapter.request<unknown, ReadableStream<Uint8Array>>({
+        url: '/download',
+        method: 'GET',
+        responseType: 'stream',
+      });
+
+      expect(response.data).toBeInstanceOf(ReadableStream);
+      expect(await new Response(response.data).text()).toBe('chunk');
+    });
+
     it('超时应该中止请求', async () => {
       const mockFetch = vi.fn(async (url, init) => {
         // 模拟延迟
@@ -380,6 +474,28 @@ describe('fetchAdapter', () => {
       });
       expect(response.data).toEqual({ data: 'original', intercepted: true });
     });
+    it('should build the url from baseURL, pathParams and params', async () => {
+      const mockFetch = vi.fn(async () => new Response('{}', { status: 200 }));
+
+      const adapter = createFetchAdapter({
+        baseURL: 'https://api.example.com/v1/',
+        customFetch: mockFetch as typeof fetch,
+      });
+      await adapter.request({
+        url: '/users/{id}/files/:name',
+        method: 'GET',
+        pathParams: { id: 1, name: 'a b.txt' },
+        params: { download: true },
+      });
+      await adapter.request({ url: '//cdn.example.com/a.js', method: 'GET' });
+
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        'https://api.example.com/v1/users/1/files/a%20b.txt?download=true',
+        expect.any(Object)
+      );
+      expect(mockFetch).toHaveBeenNthCalledWith(2, 'https://cdn.example.com/a.js', expect.any(Object));
+    });
   });
 
   describe('fetchAdapter 快捷方法', () => {
@@ -487,6 +603,30 @@ describe('eventSourceAdapter', () => {
       expect(response.headers).toEqual(expect.objectContaining({ 'x-test': '1' }));
     });
 
+    it('should encode form bodies the same way as the fetch adapter', async () => {
+      const { fetchEventSource } = await import('@microsoft/fetch-event-source');
+      const mockedFetchEventSource = vi.mocked(fetchEventSource);
+
+      mockedFetchEventSource.mockImplementation((_input: RequestInfo, options: any) => {
+        options.onopen(new Response(null, { status: 200, statusText: 'OK' }));
+        options.onclose();
+        return Promise.resolve();
+      });
+
+      const adapter = createEventSourceAdapter({ paramsSerializer: { arrayFormat: 'comma' } });
+      await adapter.request({
+        url: '/events',
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        data: { topics: ['a', 'b'] },
+      });
+
+      expect(mockedFetchEventSource).toHaveBeenCalledWith(
+        '/events',
+        expect.objectContaining({ body: 'topics=a%2Cb' })
+      );
+    });
+
     it('should not override Accept header when already provided', async () => {
       const { fetchEventSource } = await import('@microsoft/fetch-event-source');
       const mockedFetchEventSource = vi.mocked(fetchEventSource);
@@ -584,6 +724,7 @@ describe('axiosAdapter', () => {
         method: 'GET',
         headers: { 'Authorization': 'Bearer token' },
         params: { page: 1 },
+        paramsSerializer: expect.any(Function),
         data: undefined,
         timeout: undefined,
         baseURL: undefined,
@@ -603,6 +744,92 @@ describe('axiosAdapter', () => {
         },
       });
     });
+    it('should interpolate pathParams and leave baseURL and params to axios', async () => {
+      const mockAxios = {
+        request: vi.fn().mockResolvedValue({ data: null, status: 200, statusText: 'OK', headers: {} }),
+      } as any;
+
+      const adapter = createAxiosAdapter({ instance: mockAxios });
+      await adapter.request({
+        url: '/users/:id',
+        method: 'GET',
+        pathParams: { id: 'a/b' },
+        baseURL: 'https://api.example.com',
+        params: { page: 1 },
+      });
+
+      expect(mockAxios.request).toHaveBeenCalledWith(expect.objectContaining({
+        url: '/users/a%2Fb',
+        baseURL: 'https://api.example.com',
+        params: { page: 1 },
+      }));
+    });
+
+    it('should produce the same url as the fetch adapter', async () => {
+      const urls: string[] = [];
+      const instance = axios.create({
+        baseURL: 'https://api.example.com',
+        adapter: async (config) => {
+          urls.push(axios.getUri(config));
+          return { data: null, status: 200, statusText: 'OK', headers: {}, config };
+        },
+      });
+      const mockFetch = vi.fn(async (url: string) => {
+        urls.push(url);
+        return new Response('{}', { status: 200 });
+      });
+      const requestConfig: RequestConfig = {
+        url: '/search',
+        method: 'GET',
+        params: { ids: [1, 2], filter: { name: 'a b' }, since: new Date(Date.UTC(2026, 0, 1)) },
+        paramsSerializer: { arrayFormat: 'brackets', nesting: 'dots' },
+      };
+
+      await createAxiosAdapter({ instance }).request(requestConfig);
+      await createFetchAdapter({
+        baseURL: 'https://api.example.com',
+        customFetch: mockFetch as unknown as typeof fetch,
+      }).request(requestConfig);
+
+      expect(urls[0]).toBe(
+        'https://api.example.com/search?ids%5B%5D=1&ids%5B%5D=2&filter.name=a+b&since=2026-01-01T00%3A00%3A00.000Z'
+      );
+      expect(urls[1]).toBe(urls[0]);
+    });
+
+    it('decodeResponse should decode axios text responses like the fetch adapter', async () => {
+      const requested: unknown[] = [];
+      const responses: Array<[number, string, string]> = [
+        [200, '123', 'text/plain'],
+        [200, '{"id":1}', 'application/vnd.api+json'],
+        [204, '', 'application/json'],
+        [422, '{"message":"invalid"}', 'application/json'],
+      ];
+      const instance = axios.create({
+        adapter: async (config) => {
+          requested.push(config.responseType);
+          const [status, data, type] = responses.shift()!;
+          const response = { data, status, statusText: '', headers: { 'content-type': type }, config };
+          if (status >= 400) {
+            throw Object.assign(new Error(`Request failed with status code ${status}`), { isAxiosError: true, response });
+          }
+          return response;
+        },
+      });
+      const adapter = createAxiosAdapter({ instance, decodeResponse: true });
+
+      const text = await adapter.request({ url: '/count', method: 'GET' });
+      const json = await adapter.request({ url: '/users/1', method: 'GET', responseType: 'json' });
+      const empty = await adapter.request({ url: '/users/1', method: 'DELETE' });
+      const error = await adapter.request({ url: '/users', method: 'POST' }).catch((e) => e);
+
+      expect(requested).toEqual(['text', 'text', 'text', 'text']);
+      expect(text.data).toBe('123');
+      expect(json.data).toEqual({ id: 1 });
+      expect(empty.data).toBeUndefined();
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error.body).toEqual({ message: 'invalid' });
+    });
   });
 
   describe('axiosAdapter 快捷方法', () => {
@@ -618,3 +845,323 @@ describe('axiosAdapter', () => {
     });
   });
 });
+
+describe('取消 (signal)', () => {
+  function createPendingFetch() {
+    return vi.fn((_url: string, init?: RequestInit) => new Promise<Response>((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => {
+        reject(new DOMException('The operation was aborted', 'AbortError'));
+      });
+    }));
+  }
+
+  it('fetch adapter should forward the signal and reject with AbortError', async () => {
+    const mockFetch = createPendingFetch();
+    const adapter = createFetchAdapter({ customFetch: mockFetch as unknown as typeof fetch });
+    const controller = new AbortController();
+
+    const pending = adapter.request({ url: '/slow', method: 'GET', signal: controller.signal });
+    controller.abort('user left');
+
+    const error = await pending.catch((e) => e);
+    expect(error).toBeInstanceOf(AbortError);
+    expect(error.reason).toBe('user left');
+    expect(mockFetch.mock.calls[0][1]?.signal).toBe(controller.signal);
+  });
+
+  it('fetch adapter should combine the signal with timeout', async () => {
+    const mockFetch = createPendingFetch();
+    const adapter = createFetchAdapter({ customFetch: mockFetch as unknown as typeof fetch });
+    const controller = new AbortController();
+
+    const pending = adapter.request({ url: '/slow', method: 'GET', timeout: 10_000, signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(AbortError);
+  });
+
+  it('fetch adapter should not call fetch when already aborted', async () => {
+    const mockFetch = createPendingFetch();
+    const adapter = createFetchAdapter({ customFetch: mockFetch as unknown as typeof fetch });
+
+    await expect(
+      adapter.request({ url: '/slow', method: 'GET', signal: AbortSignal.abort() })
+    ).rejects.toBeInstanceOf(AbortError);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('axios adapter should forward the signal and convert cancellation to AbortError', async () => {
+    const controller = new AbortController();
+    const mockAxios = {
+      request: vi.fn((config: { signal?: AbortSignal }) => new Promise((_resolve, reject) => {
+        config.signal?.addEventListener('abort', () => {
+          reject(Object.assign(new Error('canceled'), { name: 'CanceledError', code: 'ERR_CANCELED' }));
+        });
+      })),
+    } as any;
+
+    const adapter = createAxiosAdapter({ instance: mockAxios });
+    const pending = adapter.request({ url: '/users', method: 'GET', signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(AbortError);
+    expect(mockAxios.request).toHaveBeenCalledWith(expect.objectContaining({ signal: controller.signal }));
+  });
+
+  it('eventSource adapter should reject with AbortError when aborted before open', async () => {
+    const { fetchEventSource } = await import('@microsoft/fetch-event-source');
+    const mockedFetchEventSource = vi.mocked(fetchEventSource);
+
+    // 与 fetch-event-source 一致：被取消时正常返回
+    mockedFetchEventSource.mockImplementation((_input: RequestInfo, options: any) => new Promise<void>((resolve) => {
+      options.signal.addEventListener('abort', () => resolve());
+    }));
+
+    const controller = new AbortController();
+    const adapter = createEventSourceAdapter();
+    const pending = adapter.request({ url: '/events', method: 'GET', signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(AbortError);
+  });
+});
+
+describe('统一错误类型', () => {
+  it('fetch adapter should throw HttpError with parsed problem details', async () => {
+    const problem = { type: 'https://example.com/probs/not-found', title: 'User not found', status: 404 };
+    const mockFetch = vi.fn(async () => new Response(JSON.stringify(problem), {
+      status: 404,
+      statusText: 'Not Found',
+      headers: { 'content-type': 'application/problem+json' },
+    }));
+    const adapter = createFetchAdapter({ customFetch: mockFetch as unknown as typeof fetch });
+    const config: RequestConfig = { url: '/users/1', method: 'GET' };
+
+    const error = await adapter.request(config).catch((e) => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.status).toBe(404);
+    expect(error.body).toEqual(problem);
+    expect(error.problem).toEqual(problem);
+    expect(error.headers).toEqual({ 'content-type': 'application/problem+json' });
+    expect(error.config).toBe(config);
+  });
+
+  it('fetch adapter 超时应该抛出 TimeoutError', async () => {
+    const mockFetch = vi.fn((_url: string, init?: RequestInit) => new Promise<Response>((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => {
+        reject(new DOMException('The operation was aborted', 'AbortError'));
+      });
+    }));
+    const adapter = createFetchAdapter({ customFetch: mockFetch as unknown as typeof fetch });
+
+    const error = await adapter.request({ url: '/slow', method: 'GET', timeout: 10 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.timeout).toBe(10);
+  });
+
+  it('fetch adapter should wrap fetch failures in NetworkError', async () => {
+    const cause = new TypeError('Failed to fetch');
+    const mockFetch = vi.fn().mockRejectedValue(cause);
+    const adapter = createFetchAdapter({ customFetch: mockFetch as unknown as typeof fetch });
+
+    const error = await adapter.request({ url: '/users', method: 'GET' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.message).toBe('Failed to fetch');
+    expect(error.cause).toBe(cause);
+  });
+
+  it('声明为 JSON 的响应体解析失败时应该抛出 ParseError', async () => {
+    const mockFetch = vi.fn(async () => new Response('{"broken"', {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+    }));
+    const adapter = createFetchAdapter({ customFetch: mockFetch as unknown as typeof fetch });
+
+    const error = await adapter.request({ url: '/users', method: 'GET' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ParseError);
+    expect(error.body).toBe('{"broken"');
+  });
+
+  it('axios adapter should convert AxiosError to typed errors', async () => {
+    const httpFailure = Object.assign(new Error('Request failed with status code 500'), {
+      isAxiosError: true,
+      code: 'ERR_BAD_RESPONSE',
+      response: { status: 500, statusText: 'Internal Server Error', headers: {}, data: { message: 'boom' } },
+    });
+    const timeoutFailure = Object.assign(new Error('timeout of 100ms exceeded'), {
+      isAxiosError: true,
+      code: 'ECONNABORTED',
+    });
+    const networkFailure = Object.assign(new Error('Network Error'), { isAxiosError: true, code: 'ERR_NETWORK' });
+    const mockAxios = {
+      request: vi.fn()
+        .mockRejectedValueOnce(httpFailure)
+        .mockRejectedValueOnce(timeoutFailure)
+        .mockRejectedValueOnce(networkFailure),
+    } as any;
+    const adapter = createAxiosAdapter({ instance: mockAxios });
+
+    const httpError = await adapter.request({ url: '/users', method: 'GET' }).catch((e) => e);
+    expect(httpError).toBeInstanceOf(HttpError);
+    expect(httpError.status).toBe(500);
+    expect(httpError.body).toEqual({ message: 'boom' });
+    expect(httpError.cause).toBe(httpFailure);
+
+    const timeoutError = await adapter.request({ url: '/users', method: 'GET', timeout: 100 }).catch((e) => e);
+    expect(timeoutError).toBeInstanceOf(TimeoutError);
+    expect(timeoutError.timeout).toBe(100);
+
+    const networkError = await adapter.request({ url: '/users', method: 'GET' }).catch((e) => e);
+    expect(networkError).toBeInstanceOf(NetworkError);
+    expect(networkError.message).toBe('Network Error');
+  });
+
+  it('eventSource adapter should reject with HttpError when the response is not ok', async () => {
+    const { fetchEventSource } = await import('@microsoft/fetch-event-source');
+    const mockedFetchEventSource = vi.mocked(fetchEventSource);
+
+    mockedFetchEventSource.mockImplementation(async (_input: RequestInfo, options: any) => {
+      try {
+        await options.onopen(new Response(JSON.stringify({ title: 'Unauthorized' }), {
+          status: 401,
+          statusText: 'Unauthorized',
+          headers: { 'content-type': 'application/problem+json' },
+        }));
+      } catch (error) {
+        options.onerror(error);
+      }
+    });
+
+    const adapter = createEventSourceAdapter();
+    const error = await adapter.request({ url: '/events', method: 'GET' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.status).toBe(401);
+    expect(error.problem).toEqual({ type: 'about:blank', title: 'Unauthorized' });
+  });
+});
+
+describe('validateStatus', () => {
+  function createJsonFetch(status: number, body: unknown) {
+    return vi.fn(async () => new Response(JSON.stringify(body), {
+      status,
+      statusText: 'Unprocessable Entity',
+      headers: { 'content-type': 'application/json' },
+    }));
+  }
+
+  it('fetch adapter should resolve statuses accepted by validateStatus with the parsed body', async () => {
+    const body = { errors: { email: 'invalid' } };
+    const adapter = createFetchAdapter({
+      customFetch: createJsonFetch(422, body) as unknown as typeof fetch,
+      validateStatus: (status) => status < 500,
+    });
+
+    const response = await adapter.request({ url: '/users', method: 'POST' });
+
+    expect(response.status).toBe(422);
+    expect(response.data).toEqual(body);
+  });
+
+  it('请求配置的 validateStatus 应该优先于 adapter 配置', async () => {
+    const adapter = createFetchAdapter({
+      customFetch: createJsonFetch(422, { message: 'invalid' }) as unknown as typeof fetch,
+      validateStatus: () => true,
+    });
+
+    const error = await adapter.request({
+      url: '/users',
+      method: 'POST',
+      validateStatus: (status) => status < 400,
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.body).toEqual({ message: 'invalid' });
+  });
+
+  it('axios adapter should forward validateStatus to axios', async () => {
+    const mockAxios = {
+      request: vi.fn().mockResolvedValue({ data: {}, status: 404, statusText: 'Not Found', headers: {} }),
+    } as any;
+    const adapterValidate = (status: number) => status < 500;
+    const requestValidate = () => true;
+    const adapter = createAxiosAdapter({ instance: mockAxios, validateStatus: adapterValidate });
+
+    await adapter.request({ url: '/users', method: 'GET' });
+    await adapter.request({ url: '/users', method: 'GET', validateStatus: requestValidate });
+
+    expect(mockAxios.request.mock.calls[0][0].validateStatus).toBe(adapterValidate);
+    expect(mockAxios.request.mock.calls[1][0].validateStatus).toBe(requestValidate);
+  });
+
+  it('axios adapter 未配置 validateStatus 时应该沿用实例的默认校验', async () => {
+    const server = createServer((_req, res) => {
+      res.writeHead(404, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ message: 'missing' }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const adapter = createAxiosAdapter({
+        instance: axios.create({ baseURL: `http://127.0.0.1:${port}`, adapter: 'http' }),
+      });
+      const error = await adapter.request({ url: '/x', method: 'GET' }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error.status).toBe(404);
+      expect(error.body).toEqual({ message: 'missing' });
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it('eventSource adapter 接受的非 2xx 响应应该以解析后的响应体返回', async () => {
+    const { fetchEventSource } = await import('@microsoft/fetch-event-source');
+    const mockedFetchEventSource = vi.mocked(fetchEventSource);
+    let signal: AbortSignal | undefined;
+
+    mockedFetchEventSource.mockImplementation(async (_input: RequestInfo, options: any) => {
+      signal = options.signal;
+      await options.onopen(new Response(JSON.stringify({ message: 'no such channel' }), {
+        status: 404,
+        statusText: 'Not Found',
+        headers: { 'content-type': 'application/json' },
+      }));
+    });
+
+    const adapter = createEventSourceAdapter({ validateStatus: (status) => status < 500 });
+    const response = await adapter.request({ url: '/events', method: 'GET' });
+
+    expect(response.status).toBe(404);
+    expect(response.data).toEqual({ message: 'no such channel' });
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('eventSource adapter should reject statuses refused by validateStatus', async () => {
+    const { fetchEventSource } = await import('@microsoft/fetch-event-source');
+    const mockedFetchEventSource = vi.mocked(fetchEventSource);
+
+    mockedFetchEventSource.mockImplementation(async (_input: RequestInfo, options: any) => {
+      try {
+        await options.onopen(new Response(null, { status: 200, statusText: 'OK' }));
+      } catch (error) {
+        options.onerror(error);
+      }
+    });
+
+    const adapter = createEventSourceAdapter();
+    const error = await adapter.request({
+      url: '/events',
+      method: 'GET',
+      validateStatus: (status) => status === 201,
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.status).toBe(200);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * 请求体编码测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import { encodeBody, isBodyInit } from '../src/engine';
+
+describe('encodeBody', () => {
+  it('BodyInit 应该原样发送且不补充 Content-Type', () => {
+    const bodies = [
+      'plain text',
+      new URLSearchParams({ a: '1' }),
+      new FormData(),
+      new Blob(['x']),
+      new ArrayBuffer(2),
+      new Uint8Array([1, 2]),
+      new DataView(new ArrayBuffer(2)),
+      new ReadableStream(),
+    ];
+
+    for (const data of bodies) {
+      expect(isBodyInit(data)).toBe(true);
+      const encoded = encodeBody(data, {});
+      expect(encoded.body).toBe(data);
+      expect(encoded.headers).toEqual({});
+    }
+  });
+
+  it('should encode plain data as JSON when Content-Type is missing', () => {
+    expect(encodeBody({ name: 'Ann' }, { Accept: 'application/json' })).toEqual({
+      body: '{"name":"Ann"}',
+      headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
+    });
+    expect(encodeBody([1, 2], {}).body).toBe('[1,2]');
+    expect(encodeBody(undefined, {})).toEqual({ body: undefined, headers: {} });
+  });
+
+  it('should encode application/x-www-form-urlencoded with the params serializer', () => {
+    const headers = { 'content-type': 'application/x-www-form-urlencoded;charset=UTF-8' };
+
+    const encoded = encodeBody({ name: 'a b', tags: ['x', 'y'], user: { id: 1 } }, headers, {
+      paramsSerializer: { arrayFormat: 'brackets' },
+    });
+
+    expect(decodeURIComponent(encoded.body as string)).toBe('name=a+b&tags[]=x&tags[]=y&user[id]=1');
+    expect(encoded.headers).toBe(headers);
+  });
+
+  it('multipart/form-data 应该转为 FormData 并移除 Content-Type', () => {
+    const file = new Blob(['hello'], { type: 'text/plain' });
+
+    const encoded = encodeBody(
+      { title: 'doc', file, tags: ['a', 'b'], meta: { v: 1 }, skip: undefined },
+      { 'Content-Type': 'multipart/form-data', Accept: '*/*' }
+    );
+
+    const formData = encoded.body as FormData;
+    expect(formData).toBeInstanceOf(FormData);
+    expect(formData.get('title')).toBe('doc');
+    expect(formData.get('file')).toBeInstanceOf(Blob);
+    expect(formData.getAll('tags')).toEqual(['a', 'b']);
+    expect(formData.get('meta')).toBe('{"v":1}');
+    expect(formData.has('skip')).toBe(false);
+    expect(encoded.headers).toEqual({ Accept: '*/*' });
+  });
+
+  it('should use registered encoders for custom content types', () => {
+    const encoded = encodeBody(
+      { id: 1 },
+      { 'Content-Type': 'Application/X-Msgpack' },
+      { encoders: { 'application/x-msgpack': (data, contentType) => `${contentType}:${JSON.stringify(data)}` } }
+    );
+
+    expect(encoded.body).toBe('Application/X-Msgpack:{"id":1}');
+  });
+
+  it('自定义编码器应该可以覆盖内置编码器，未知类型回退为 JSON', () => {
+    const headers = { 'Content-Type': 'application/json' };
+
+    expect(encodeBody({ id: 1 }, headers, { encoders: { 'application/json': () => 'custom' } }).body).toBe('custom');
+    expect(encodeBody({ id: 1 }, { 'Content-Type': 'application/vnd.api+json' }).body).toBe('{"id":1}');
+  });
+});
@@ -4,7 +4,9 @@
 
 import { describe, it, expect, vi } from 'vitest';
 import { createHttpClient } from '../src/client/httpClient';
-import type { HttpAdapter, RequestConfig } from '../src/engine';
+import { createMiddlewareEngine } from '../src/engine/middlewareEngine';
+import { createFetchAdapter } from '../src/adapters/fetch';
+import { AbortError, NetworkError, RequestError, type HttpAdapter, type HttpContext, type Middleware, type RequestConfig } from '../src/engine';
 
 describe('createHttpClient', () => {
   it('should create an HTTP client instance', () => {
@@ -245,4 +247,666 @@ describe('createHttpClient', () => {
 
     await expect(client.get('/test')).rejects.toThrow('Network error');
   });
-});
\ No newline at end of file
+
+  it('should inherit middlewares from a shared engine', async () => {
+    const mockAdapter: HttpAdapter = {
+      request: vi.fn().mockResolvedValue({
+        data: 'response',
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        config: {} as RequestConfig,
+      }),
+    };
+    const logs: string[] = [];
+    const globalEngine = createMiddlewareEngine<HttpContext>();
+
+    const client = createHttpClient({
+      adapter: mockAdapter,
+      engine: globalEngine,
+      middlewares: [
+        async (ctx, next) => {
+          logs.push('client');
+          await next();
+        },
+      ],
+    });
+
+    globalEngine.use(async (ctx, next) => {
+      logs.push('global');
+      await next();
+    });
+
+    await client.get('/test');
+    await client.request({ url: '/test', method: 'GET' }, [
+      async (ctx, next) => {
+        logs.push('request');
+        await next();
+      },
+    ]);
+
+    expect(logs).toEqual(['global', 'client', 'global', 'client', 'request']);
+  });
+
+  it('dispose() should tear down client middlewares and reject new requests', async () => {
+    const mockAdapter: HttpAdapter = {
+      request: vi.fn().mockResolvedValue({
+        data: 'response',
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        config: {} as RequestConfig,
+      }),
+    };
+    const globalDispose = vi.fn();
+    const clientDispose = vi.fn();
+    const globalEngine = createMiddlewareEngine<HttpContext>({
+      middlewares: [{ dispose: globalDispose, handle: async (_ctx, next) => next() }],
+    });
+
+    const client = createHttpClient({
+      adapter: mockAdapter,
+      engine: globalEngine,
+      middlewares: [{ dispose: clientDispose, handle: async (_ctx, next) => next() }],
+    });
+
+    await client.dispose();
+
+    expect(clientDispose).toHaveBeenCalledTimes(1);
+    expect(globalDispose).not.toHaveBeenCalled();
+    await expect(client.get('/test')).rejects.toThrow('HTTP client has been disposed');
+    expect(mockAdapter.request).not.toHaveBeenCalled();
+  });
+
+  it('中间件未调用 next() 也未设置响应时应该以普通 Error 拒绝', async () => {
+    const mockAdapter: HttpAdapter = { request: vi.fn() };
+    const client = createHttpClient({
+      adapter: mockAdapter,
+      middlewares: [async () => {}],
+    });
+
+    const error = await client.get('/test').catch((e) => e);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error).not.toBeInstanceOf(RequestError);
+    expect(error.message).toBe('No response received');
+    expect(mockAdapter.request).not.toHaveBeenCalled();
+  });
+
+  it('defaults.paramsSerializer 应该可以被单次请求覆盖', async () => {
+    const customFetch = vi.fn(async () => new Response('{}', { status: 200 }));
+    const client = createHttpClient({
+      adapter: createFetchAdapter({ customFetch: customFetch as unknown as typeof fetch }),
+      defaults: { paramsSerializer: { arrayFormat: 'comma' } },
+    });
+
+    await client.get('/users', { params: { ids: [1, 2] } });
+    await client.get('/users', { params: { ids: [1, 2] }, paramsSerializer: { arrayFormat: 'repeat' } });
+
+    expect(customFetch.mock.calls.map((call) => (call as unknown[])[0])).toEqual([
+      '/users?ids=1%2C2',
+      '/users?ids=1&ids=2',
+    ]);
+  });
+
+  describe('取消', () => {
+    it('should expose the signal on ctx and forward it to the adapter', async () => {
+      const mockAdapter: HttpAdapter = {
+        request: vi.fn().mockResolvedValue({
+          data: 'response',
+          status: 200,
+          statusText: 'OK',
+          headers: {},
+          config: {} as RequestConfig,
+        }),
+      };
+      const controller = new AbortController();
+      let seen: AbortSignal | undefined;
+
+      const client = createHttpClient({
+        adapter: mockAdapter,
+        middlewares: [
+          async (ctx, next) => {
+            seen = ctx.signal;
+            await next();
+          },
+        ],
+      });
+
+      await client.get('/test', { signal: controller.signal });
+
+      expect(seen).toBe(controller.signal);
+      expect(mockAdapter.request).toHaveBeenCalledWith(expect.objectContaining({ signal: controller.signal }));
+    });
+
+    it('should forward a signal replaced by a middleware', async () => {
+      const mockAdapter: HttpAdapter = {
+        request: vi.fn().mockResolvedValue({
+          data: 'response',
+          status: 200,
+          statusText: 'OK',
+          headers: {},
+          config: {} as RequestConfig,
+        }),
+      };
+      const replaced = new AbortController().signal;
+
+      const client = createHttpClient({
+        adapter: mockAdapter,
+        middlewares: [
+          async (ctx, next) => {
+            ctx.signal = replaced;
+            await next();
+          },
+        ],
+      });
+
+      await client.get('/test');
+
+      expect(mockAdapter.request).toHaveBeenCalledWith(expect.objectContaining({ signal: replaced }));
+    });
+
+    it('should reject with AbortError even if a middleware ignores the signal', async () => {
+      const mockAdapter: HttpAdapter = { request: vi.fn() };
+      const controller = new AbortController();
+      const onError = vi.fn();
+
+      const client = createHttpClient({
+        adapter: mockAdapter,
+        onError,
+        middlewares: [
+          async () => {
+            // 不响应 signal 的慢中间件
+            await new Promise((resolve) => setTimeout(resolve, 50));
+          },
+        ],
+      });
+
+      const pending = client.get('/test', { signal: controller.signal });
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(AbortError);
+      expect(onError).toHaveBeenCalledWith(expect.any(AbortError), expect.anything());
+      expect(mockAdapter.request).not.toHaveBeenCalled();
+    });
+
+    it('should not dispatch when the signal is already aborted', async () => {
+      const mockAdapter: HttpAdapter = { request: vi.fn() };
+      const client = createHttpClient({ adapter: mockAdapter });
+
+      await expect(client.get('/test', { signal: AbortSignal.abort() })).rejects.toBeInstanceOf(AbortError);
+      expect(mockAdapter.request).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('错误处理', () => {
+    const okResponse = {
+      data: 'ok',
+      status: 200,
+      statusText: 'OK',
+      headers: {},
+      config: {} as RequestConfig,
+    };
+
+    it('should fill ctx.error when a middleware throws', async () => {
+      const seen: Array<string | undefined> = [];
+      const client = createHttpClient({
+        adapter: { request: vi.fn().mockResolvedValue(okResponse) },
+        middlewares: [
+          async (ctx, next) => {
+            try {
+              await next();
+            } finally {
+              seen.push(ctx.error?.message);
+            }
+          },
+          async () => {
+            throw new Error('middleware failed');
+          },
+        ],
+      });
+
+      await expect(client.get('/test')).rejects.toThrow('middleware failed');
+      expect(seen).toEqual(['middleware failed']);
+    });
+
+    it('defaults.validateStatus 接受的非 2xx 响应应该进入中间件链', async () => {
+      const seen: unknown[] = [];
+      const client = createHttpClient({
+        adapter: createFetchAdapter({
+          customFetch: vi.fn(async () => new Response(JSON.stringify({ message: 'email is invalid' }), {
+            status: 422,
+            headers: { 'content-type': 'application/json' },
+          })) as unknown as typeof fetch,
+        }),
+        defaults: { validateStatus: (status) => status < 500 },
+        middlewares: [
+          async (ctx, next) => {
+            await next();
+            seen.push(ctx.response?.status, ctx.response?.data);
+          },
+        ],
+      });
+
+      const response = await client.post('/users', { email: 'x' });
+
+      expect(response.status).toBe(422);
+      expect(seen).toEqual([422, { message: 'email is invalid' }]);
+    });
+
+    it('adapter 抛出的普通错误应该规范化为 NetworkError', async () => {
+      const cause = new Error('socket hang up');
+      const client = createHttpClient({ adapter: { request: vi.fn().mockRejectedValue(cause) } });
+
+      const error = await client.get('/test').catch((e) => e);
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error.message).toBe('socket hang up');
+      expect(error.cause).toBe(cause);
+      expect(error.config).toMatchObject({ url: '/test', method: 'GET' });
+    });
+
+    it('onError should recover by setting ctx.response', async () => {
+      const fallback = { ...okResponse, data: 'fallback' };
+      const client = createHttpClient({
+        adapter: { request: vi.fn().mockRejectedValue(new Error('Network error')) },
+        onError: (error, ctx) => {
+          ctx.response = fallback;
+        },
+      });
+
+      await expect(client.get('/test')).resolves.toBe(fallback);
+    });
+
+    it('onError should map errors and support reporting', async () => {
+      const reported: string[] = [];
+      const client = createHttpClient({
+        adapter: { request: vi.fn().mockRejectedValue(new Error('Network error')) },
+      });
+
+      client.onError((error, ctx) => {
+        reported.push(`${ctx.request.url}: ${error.message}`);
+      });
+      const dispose = client.onError((error) => {
+        throw new Error(`Mapped ${error.message}`);
+      });
+
+      await expect(client.get('/test')).rejects.toThrow('Mapped Network error');
+      dispose();
+      await expect(client.get('/test')).rejects.toThrow('Network error');
+      expect(reported).toEqual(['/test: Network error', '/test: Network error']);
+    });
+
+    it('should not treat an existing response as recovery', async () => {
+      const handler = vi.fn();
+      const client = createHttpClient({
+        adapter: { request: vi.fn().mockResolvedValue(okResponse) },
+        middlewares: [
+          async (ctx, next) => {
+            await next();
+            throw new Error('post-processing failed');
+          },
+        ],
+        onError: handler,
+      });
+
+      await expect(client.get('/test')).rejects.toThrow('post-processing failed');
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('拦截器', () => {
+    const okResponse = {
+      data: 'ok',
+      status: 200,
+      statusText: 'OK',
+      headers: {},
+      config: {} as RequestConfig,
+    };
+
+    it('should run request interceptors in reverse order and response interceptors in order', async () => {
+      const mockAdapter: HttpAdapter = { request: vi.fn().mockResolvedValue(okResponse) };
+      const client = createHttpClient({ adapter: mockAdapter });
+      const logs: string[] = [];
+
+      client.interceptors.request.use((config) => {
+        logs.push('request-1');
+        return { ...config, headers: { ...config.headers, 'X-First': '1' } };
+      });
+      client.interceptors.request.use(async (config) => {
+        logs.push('request-2');
+        return { ...config, headers: { ...config.headers, 'X-Second': '2' } };
+      });
+      client.interceptors.response.use((response) => {
+        logs.push('response-1');
+        return { ...response, data: `${response.data}-1` };
+      });
+      client.interceptors.response.use((response) => {
+        logs.push('response-2');
+        return { ...response, data: `${response.data}-2` };
+      });
+
+      const response = await client.get('/test');
+
+      expect(logs).toEqual(['request-2', 'request-1', 'response-1', 'response-2']);
+      expect(response.data).toBe('ok-1-2');
+      expect(mockAdapter.request).toHaveBeenCalledWith(
+        expect.objectContaining({ headers: { 'X-First': '1', 'X-Second': '2' } })
+      );
+    });
+
+    it('eject() 之后拦截器不再执行', async () => {
+      const client = createHttpClient({ adapter: { request: vi.fn().mockResolvedValue(okResponse) } });
+      const interceptor = vi.fn((response) => response);
+
+      const id = client.interceptors.response.use(interceptor);
+      await client.get('/test');
+      client.interceptors.response.eject(id);
+      await client.get('/test');
+
+      expect(interceptor).toHaveBeenCalledTimes(1);
+    });
+
+    it('should compose with middlewares in phase order', async () => {
+      const mockAdapter: HttpAdapter = { request: vi.fn().mockResolvedValue(okResponse) };
+      const seen: unknown[] = [];
+      const client = createHttpClient({
+        adapter: mockAdapter,
+        middlewares: [
+          async (ctx, next) => {
+            ctx.request.headers = { ...ctx.request.headers, Authorization: 'Bearer token' };
+            await next();
+            seen.push(ctx.response?.data);
+          },
+        ],
+      });
+
+      client.interceptors.request.use((config) => {
+        seen.push(config.headers?.Authorization);
+        return config;
+      });
+      client.interceptors.response.use((response) => ({ ...response, data: 'intercepted' }));
+
+      await client.get('/test');
+
+      // 请求拦截器看到中间件修改后的配置，中间件看到响应拦截器的结果
+      expect(seen).toEqual(['Bearer token', 'intercepted']);
+    });
+
+    it('response onRejected 返回响应时应该视为恢复', async () => {
+      const client = createHttpClient({
+        adapter: { request: vi.fn().mockRejectedValue(new Error('Network error')) },
+      });
+      const errors: string[] = [];
+
+      client.interceptors.response.use(null, (error) => {
+        errors.push(error.message);
+        return { ...okResponse, data: 'fallback' };
+      });
+
+      const response = await client.get('/test');
+
+      expect(response.data).toBe('fallback');
+      expect(errors).toEqual(['Network error']);
+    });
+
+    it('请求拦截器失败时不应该发送请求', async () => {
+      const mockAdapter: HttpAdapter = { request: vi.fn().mockResolvedValue(okResponse) };
+      const client = createHttpClient({ adapter: mockAdapter });
+      const onRejected = vi.fn((error: Error) => {
+        throw new Error(`Wrapped ${error.message}`);
+      });
+
+      client.interceptors.request.use(null, onRejected);
+      client.interceptors.request.use(() => {
+        throw new Error('invalid config');
+      });
+
+      await expect(client.get('/test')).rejects.toThrow('Wrapped invalid config');
+      expect(onRejected).toHaveBeenCalledTimes(1);
+      expect(mockAdapter.request).not.toHaveBeenCalled();
+    });
+
+    it('clear() should remove all interceptors', async () => {
+      const client = createHttpClient({ adapter: { request: vi.fn().mockResolvedValue(okResponse) } });
+      const interceptor = vi.fn((config) => config);
+
+      client.interceptors.request.use(interceptor);
+      client.interceptors.request.use(interceptor);
+      client.interceptors.request.clear();
+      await client.get('/test');
+
+      expect(interceptor).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('extend()', () => {
+    const okResponse = {
+      data: 'ok',
+      status: 200,
+      statusText: 'OK',
+      headers: {},
+      config: {} as RequestConfig,
+    };
+
+    it('should merge defaults with the parent client', async () => {
+      const mockAdapter: HttpAdapter = { request: vi.fn().mockResolvedValue(okResponse) };
+      const client = createHttpClient({
+        adapter: mockAdapter,
+        defaults: {
+          baseURL: 'https://api.example.com',
+          timeout: 1000,
+          headers: { Authorization: 'Bearer token' },
+          params: { locale: 'en' },
+        },
+      });
+
+      const child = client.extend({
+        defaults: { timeout: 5000, headers: { 'X-Tenant': 'acme' }, params: { version: 2 } },
+      });
+      await child.get('/users', { params: { page: 1 } });
+
+      expect(mockAdapter.request).toHaveBeenCalledWith({
+        baseURL: 'https://api.example.com',
+        timeout: 5000,
+        headers: { Authorization: 'Bearer token', 'X-Tenant': 'acme' },
+        params: { locale: 'en', version: 2, page: 1 },
+        url: '/users',
+        method: 'GET',
+      });
+    });
+
+    it('子 client 的中间件应该叠加在父 client 之内，且不影响父 client', async () => {
+      const logs: string[] = [];
+      const log = (label: string): Middleware<HttpContext> => async (_ctx, next) => {
+        logs.push(label);
+        await next();
+      };
+      const client = createHttpClient({
+        adapter: { request: vi.fn().mockResolvedValue(okResponse) },
+        middlewares: [log('parent')],
+      });
+
+      const child = client.extend({ middlewares: [log('child')] });
+      await child.get('/test');
+      await client.get('/test');
+
+      expect(logs).toEqual(['parent', 'child', 'parent']);
+    });
+
+    it('should inherit later parent interceptors and error handlers', async () => {
+      const client = createHttpClient({
+        adapter: { request: vi.fn().mockRejectedValue(new Error('Network error')) },
+      });
+      const child = client.extend();
+      const onRejected = vi.fn(() => ({ ...okResponse, data: 'fallback' }));
+      const onError = vi.fn();
+
+      client.interceptors.response.use(null, onRejected);
+      client.onError(onError);
+
+      await expect(child.get('/test')).resolves.toMatchObject({ data: 'fallback' });
+      expect(onRejected).toHaveBeenCalledTimes(1);
+
+      client.interceptors.response.clear();
+      await expect(child.get('/test')).rejects.toThrow('Network error');
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    it('父、子 client 的拦截器应该各执行一次，且链中只有一个 interceptors', async () => {
+      const calls: string[] = [];
+      const client = createHttpClient({ adapter: { request: vi.fn().mockResolvedValue(okResponse) } });
+      const child = client.extend();
+
+      client.interceptors.request.use((config) => {
+        calls.push('parent request');
+        return config;
+      });
+      client.interceptors.response.use((response) => {
+        calls.push('parent response');
+        return response;
+      });
+      child.interceptors.request.use((config) => {
+        calls.push('child request');
+        return config;
+      });
+      child.interceptors.response.use((response) => {
+        calls.push('child response');
+        return response;
+      });
+
+      await child.get('/test');
+      expect(calls).toEqual(['parent request', 'child request', 'child response', 'parent response']);
+
+      calls.length = 0;
+      await client.get('/test');
+      expect(calls).toEqual(['parent request', 'parent response']);
+
+      expect(child.getPipeline().filter((entry) => entry.name === 'interceptors')).toHaveLength(1);
+    });
+
+    it('父 client dispose 后子 client 不可再用', async () => {
+      const mockAdapter: HttpAdapter = { request: vi.fn().mockResolvedValue(okResponse) };
+      const client = createHttpClient({ adapter: mockAdapter });
+      const child = client.extend();
+
+      await client.dispose();
+
+      await expect(child.get('/test')).rejects.toThrow('HTTP client has been disposed');
+      expect(mockAdapter.request).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('运行时管理中间件', () => {
+    const okResponse = {
+      data: 'ok',
+      status: 200,
+      statusText: 'OK',
+      headers: {},
+      config: {} as RequestConfig,
+    };
+
+    it('use() 注册的中间件应该对之后的请求生效', async () => {
+      const client = createHttpClient({ adapter: { request: vi.fn().mockResolvedValue(okResponse) } });
+      const middleware = vi.fn(async (_ctx: HttpContext, next: () => Promise<void>) => {
+        await next();
+      });
+
+      await client.get('/test');
+      const dispose = client.use(middleware, { name: 'spy' });
+      await client.get('/test');
+      dispose();
+      await client.get('/test');
+
+      expect(middleware).toHaveBeenCalledTimes(1);
+    });
+
+    it('should remove middlewares by name or reference', async () => {
+      const logs: string[] = [];
+      const first: Middleware<HttpContext> = async (_ctx, next) => {
+        logs.push('first');
+        await next();
+      };
+      const client = createHttpClient({
+        adapter: { request: vi.fn().mockResolvedValue(okResponse) },
+        middlewares: [first],
+      });
+      client.use(async (_ctx, next) => {
+        logs.push('second');
+        await next();
+      }, { name: 'second' });
+
+      expect(client.remove('second')).toBe(true);
+      expect(client.remove(first)).toBe(true);
+      expect(client.remove('missing')).toBe(false);
+      await client.get('/test');
+
+      expect(logs).toEqual([]);
+    });
+
+    it('getPipeline() 应该按执行顺序返回只读快照', () => {
+      const client = createHttpClient({ adapter: { request: vi.fn() } });
+      client.use(async (_ctx, next) => next(), { name: 'auth' });
+      client.use(async (_ctx, next) => next(), { name: 'logger', before: 'auth' });
+
+      const pipeline = client.getPipeline();
+
+      expect(pipeline.map((entry) => entry.name)).toEqual(['logger', 'auth', 'interceptors']);
+      expect(Object.isFrozen(pipeline)).toBe(true);
+      expect(Object.isFrozen(pipeline[0])).toBe(true);
+
+      client.remove('auth');
+      expect(pipeline).toHaveLength(3);
+      expect(client.getPipeline()).toHaveLength(2);
+    });
+
+    it('should keep the original chain for in-flight requests', async () => {
+      let release!: () => void;
+      const gate = new Promise<void>((resolve) => {
+        release = resolve;
+      });
+      const logs: string[] = [];
+      const client = createHttpClient({
+        adapter: { request: vi.fn().mockResolvedValue(okResponse) },
+        middlewares: [
+          async (_ctx, next) => {
+            await gate;
+            await next();
+          },
+        ],
+      });
+      client.use(async (_ctx, next) => {
+        logs.push('removed');
+        await next();
+      }, { name: 'removed' });
+
+      const pending = client.get('/test');
+      client.remove('removed');
+      client.use(async (_ctx, next) => {
+        logs.push('added');
+        await next();
+      });
+      release();
+      await pending;
+      await client.get('/test');
+
+      expect(logs).toEqual(['removed', 'added']);
+    });
+
+    it('父 client 之后注册的中间件应该对子 client 生效', async () => {
+      const client = createHttpClient({ adapter: { request: vi.fn().mockResolvedValue(okResponse) } });
+      const child = client.extend();
+      const middleware = vi.fn(async (_ctx: HttpContext, next: () => Promise<void>) => {
+        await next();
+      });
+
+      client.use(middleware, { name: 'parent' });
+      await child.get('/test');
+
+      expect(middleware).toHaveBeenCalledTimes(1);
+      expect(child.getPipeline().map((entry) => entry.name)).toEqual(['parent', 'interceptors', undefined]);
+      // 子 client 只能移除自己注册的中间件
+      expect(child.remove('parent')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * 条件组合器测试
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { when, unless, branch, route } from '../src/engine/combinators';
+import { composeMiddlewares } from '../src/engine/compose';
+import { defineMiddleware, getMiddlewareMeta } from '../src/engine/middlewareMeta';
+import { createHttpClient } from '../src/client/httpClient';
+import type { HttpAdapter, HttpContext, Middleware, RequestConfig } from '../src/engine';
+
+interface TestContext {
+  logs: string[];
+  admin: boolean;
+}
+
+const push = (label: string): Middleware<TestContext> => async (ctx, next) => {
+  ctx.logs.push(label);
+  await next();
+};
+
+function createRouteContext(method: string, url: string): HttpContext {
+  return { request: { method: method as RequestConfig['method'], url }, state: {} };
+}
+
+describe('when / unless', () => {
+  it('when() should only run middleware when predicate holds', async () => {
+    const composed = composeMiddlewares<TestContext>([when((ctx) => ctx.admin, push('admin')), push('tail')]);
+
+    const adminCtx: TestContext = { logs: [], admin: true };
+    const userCtx: TestContext = { logs: [], admin: false };
+    await composed(adminCtx);
+    await composed(userCtx);
+
+    expect(adminCtx.logs).toEqual(['admin', 'tail']);
+    expect(userCtx.logs).toEqual(['tail']);
+  });
+
+  it('unless() should support async predicates', async () => {
+    const composed = composeMiddlewares<TestContext>([unless(async (ctx) => ctx.admin, push('guest'))]);
+    const ctx: TestContext = { logs: [], admin: false };
+
+    await composed(ctx);
+
+    expect(ctx.logs).toEqual(['guest']);
+  });
+
+  it('should inherit meta from the wrapped middleware', () => {
+    const auth = defineMiddleware(push('auth'), { name: 'auth', phase: 'auth' });
+
+    expect(getMiddlewareMeta(when(() => true, auth))).toEqual({ name: 'auth', phase: 'auth' });
+  });
+
+  it('should validate middleware', () => {
+    // @ts-expect-error 测试错误输入
+    expect(() => when(() => true, 'not a function')).toThrow('Middleware must be a function');
+  });
+});
+
+describe('branch', () => {
+  it('should pick one of two middlewares', async () => {
+    const composed = composeMiddlewares<TestContext>([branch((ctx) => ctx.admin, push('a'), push('b'))]);
+    const ctx: TestContext = { logs: [], admin: false };
+
+    await composed(ctx);
+
+    expect(ctx.logs).toEqual(['b']);
+  });
+});
+
+describe('route', () => {
+  it('should match method and path and expose params on ctx.state', async () => {
+    const handler = vi.fn(async (ctx: HttpContext, next: () => Promise<void>) => next());
+    const composed = composeMiddlewares<HttpContext>([route({ method: 'GET', path: '/users/:id' }, handler)]);
+
+    const ctx = createRouteContext('get', 'https://api.example.com/users/a%20b?expand=1');
+    await composed(ctx);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(ctx.state.params).toEqual({ id: 'a b' });
+  });
+
+  it('should skip when method or path does not match', async () => {
+    const handler = vi.fn(async (ctx: HttpContext, next: () => Promise<void>) => next());
+    const composed = composeMiddlewares<HttpContext>([route({ method: ['POST', 'PUT'], path: '/users/:id' }, handler)]);
+
+    await composed(createRouteContext('GET', '/users/1'));
+    await composed(createRouteContext('POST', '/users/1/posts'));
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should support optional params, wildcards and RegExp paths', async () => {
+    const seen: unknown[] = [];
+    const record: Middleware<HttpContext> = async (ctx, next) => {
+      seen.push(ctx.state.params);
+      await next();
+    };
+
+    await composeMiddlewares<HttpContext>([route({ path: '/posts/:page?' }, record)])(createRouteContext('GET', '/posts'));
+    await composeMiddlewares<HttpContext>([route({ path: '/files/*' }, record)])(createRouteContext('GET', 'files/a/b.txt'));
+    await composeMiddlewares<HttpContext>([route({ path: /^\/v(?<version>\d+)\// }, record)])(createRouteContext('GET', '/v2/items'));
+
+    expect(seen).toEqual([{}, {}, { version: '2' }]);
+  });
+
+  it('should expand pathParams before matching', async () => {
+    const handler = vi.fn(async (ctx: HttpContext, next: () => Promise<void>) => next());
+    const composed = composeMiddlewares<HttpContext>([route({ method: 'GET', path: '/users/:id/posts' }, handler)]);
+
+    const ctx: HttpContext = {
+      request: { method: 'GET', url: '/users/{userId}/posts', pathParams: { userId: 'a b' } },
+      state: {},
+    };
+    await composed(ctx);
+
+    expect(ctx.state.params).toEqual({ id: 'a b' });
+  });
+
+  it('should work as a client middleware', async () => {
+    const adapter: HttpAdapter = {
+      request: vi.fn().mockResolvedValue({ data: null, status: 200, statusText: 'OK', headers: {}, config: {} }),
+    };
+    const seen: unknown[] = [];
+    const client = createHttpClient({
+      adapter,
+      middlewares: [
+        route({ method: 'DELETE', path: '/users/:id' }, async (ctx, next) => {
+          seen.push(ctx.state.params);
+          await next();
+        }),
+      ],
+    });
+
+    await client.delete('/users/42');
+    await client.get('/users/42');
+
+    expect(seen).toEqual([{ id: '42' }]);
+  });
+});
@@ -205,3 +205,49 @@ describe('composeMiddlewares', () => {
     expect(ctx.value).toBe(123);
   });
 });
+
+describe('composeMiddlewares 返回值', () => {
+  interface Command {
+    input: number;
+    logs: string[];
+  }
+
+  it('should resolve to the finalHandler result', async () => {
+    const composed = composeMiddlewares<Command, number>([], async () => 42);
+
+    await expect(composed({ input: 0, logs: [] })).resolves.toBe(42);
+  });
+
+  it('next() 应该解析为下游结果，中间件可以改写结果', async () => {
+    const double: Middleware<Command, number> = async (_ctx, next) => (await next()) * 2;
+    const increment: Middleware<Command, number> = async (_ctx, next) => (await next()) + 1;
+
+    const composed = composeMiddlewares<Command, number>([double, increment], async (): Promise<number> => 10);
+
+    await expect(composed({ input: 0, logs: [] })).resolves.toBe(22);
+  });
+
+  it('不返回值的中间件应该透传下游结果', async () => {
+    const log: Middleware<Command, number> = async (ctx, next) => {
+      ctx.logs.push('before');
+      await next();
+      ctx.logs.push('after');
+    };
+    const ctx: Command = { input: 5, logs: [] };
+
+    const composed = composeMiddlewares<Command, number>([log], async () => ctx.input * 3);
+
+    await expect(composed(ctx)).resolves.toBe(15);
+    expect(ctx.logs).toEqual(['before', 'after']);
+  });
+
+  it('短路的中间件可以直接返回结果', async () => {
+    const finalHandler = vi.fn(async () => 1);
+    const cached: Middleware<Command, number> = async (ctx, next) => (ctx.input === 0 ? -1 : next());
+
+    const composed = composeMiddlewares<Command, number>([cached], finalHandler);
+
+    await expect(composed({ input: 0, logs: [] })).resolves.toBe(-1);
+    expect(finalHandler).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * 响应体解码测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ParseError, decodeBody, hasResponseBody } from '../src/engine';
+
+describe('decodeBody', () => {
+  it('should decode by Content-Type', () => {
+    expect(decodeBody('{"id":1}', { 'Content-Type': 'application/json; charset=utf-8' })).toEqual({ id: 1 });
+    expect(decodeBody('{"data":[]}', { 'content-type': 'application/vnd.api+json' })).toEqual({ data: [] });
+    expect(decodeBody('{"a":1}\n\n{"a":2}\r\n', { 'content-type': 'application/x-ndjson' })).toEqual([{ a: 1 }, { a: 2 }]);
+  });
+
+  it('文本类型应该原样返回，不尝试 JSON 解析', () => {
+    expect(decodeBody('123', { 'content-type': 'text/plain' })).toBe('123');
+    expect(decodeBody('a,b\n1,2', { 'content-type': 'text/csv' })).toBe('a,b\n1,2');
+    expect(decodeBody('<a>1</a>', { 'content-type': 'application/xml' })).toBe('<a>1</a>');
+  });
+
+  it('未声明 Content-Type 时尝试 JSON，失败时返回文本', () => {
+    expect(decodeBody('123', {})).toBe(123);
+    expect(decodeBody('hello', {})).toBe('hello');
+    expect(decodeBody('', {})).toBe('');
+  });
+
+  it('should follow responseType over Content-Type', () => {
+    expect(decodeBody('{"id":1}', { 'content-type': 'application/json' }, { responseType: 'text' })).toBe('{"id":1}');
+    expect(decodeBody('[1]', { 'content-type': 'text/plain' }, { responseType: 'json' })).toEqual([1]);
+    expect(decodeBody('', { 'content-type': 'application/json' })).toBeUndefined();
+  });
+
+  it('should use registered decoders and wrap their failures in ParseError', () => {
+    const decoders = {
+      'text/csv': (text: string) => text.split('\n').map((line) => line.split(',')),
+      'application/x-broken': () => {
+        throw new Error('unsupported');
+      },
+    };
+
+    expect(decodeBody('a,b\n1,2', { 'content-type': 'text/csv; header=present' }, { decoders })).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+
+    const error = (() => {
+      try {
+        return decodeBody('x', { 'content-type': 'application/x-broken' }, { decoders, status: 200 });
+      } catch (e) {
+        return e;
+      }
+    })() as ParseError;
+    expect(error).toBeInstanceOf(ParseError);
+    expect(error.message).toBe('Failed to parse response body as application/x-broken');
+    expect(error.status).toBe(200);
+    expect(error.body).toBe('x');
+  });
+
+  it('JSON / NDJSON 解析失败时应该抛出 ParseError', () => {
+    expect(() => decodeBody('{', { 'content-type': 'application/json' })).toThrow(ParseError);
+    expect(() => decodeBody('{"a":1}\n{', { 'content-type': 'application/x-ndjson' })).toThrow(
+      'Failed to parse response body as NDJSON'
+    );
+  });
+});
+
+describe('hasResponseBody', () => {
+  it('HEAD 请求与 204 / 205 / 304 响应没有响应体', () => {
+    expect(hasResponseBody(200, 'GET')).toBe(true);
+    expect(hasResponseBody(200, 'head')).toBe(false);
+    expect(hasResponseBody(204)).toBe(false);
+    expect(hasResponseBody(205, 'POST')).toBe(false);
+    expect(hasResponseBody(304, 'GET')).toBe(false);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * defineApi 测试
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createHttpClient } from '../src/client/httpClient';
+import { defineApi, typed } from '../src/client/defineApi';
+import {
+  buildUrl,
+  createValidationMiddleware,
+  ResponseValidationError,
+  type HttpAdapter,
+  type RequestConfig,
+  type ResponseSchema,
+} from '../src/engine';
+
+interface User {
+  id: number;
+  name: string;
+}
+
+const UserSchema: ResponseSchema<User> = {
+  parse(input) {
+    const data = input as Partial<User>;
+    if (typeof data.id !== 'number') {
+      throw Object.assign(new Error('Invalid user'), { issues: [{ path: ['id'], message: 'Expected number' }] });
+    }
+    return { id: data.id, name: String(data.name) };
+  },
+};
+
+function createAdapter(data: unknown = { id: 1, name: 'Ann' }) {
+  const adapter: HttpAdapter = {
+    request: vi.fn(async (config: RequestConfig) => ({
+      data,
+      status: 200,
+      statusText: 'OK',
+      headers: {},
+      config,
+    })) as unknown as HttpAdapter['request'],
+  };
+  return adapter;
+}
+
+describe('defineApi', () => {
+  it('should fill path params and send the request', async () => {
+    const adapter = createAdapter();
+    const api = defineApi(createHttpClient({ adapter }), {
+      getUser: { method: 'GET', path: '/users/:id', response: UserSchema },
+    });
+
+    const response = await api.getUser({ params: { id: 'a/b' } });
+
+    expect(response.data).toEqual({ id: 1, name: 'Ann' });
+    expect(adapter.request).toHaveBeenCalledWith(expect.objectContaining({
+      url: '/users/:id',
+      pathParams: { id: 'a/b' },
+      method: 'GET',
+      validate: UserSchema,
+    }));
+  });
+
+  it('缺少必填路径参数时应该在发送前以 TypeError 拒绝', async () => {
+    const adapter = createAdapter();
+    const api = defineApi(createHttpClient({ adapter }), {
+      listPosts: { method: 'GET', path: '/users/:id/posts/:postId?' },
+    });
+
+    const error = await api.listPosts({ params: {} as { id: number } }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TypeError);
+    expect(error.message).toContain('Missing path parameter "id"');
+    expect(adapter.request).not.toHaveBeenCalled();
+  });
+
+  it('should merge client defaults, endpoint defaults, call config and query', async () => {
+    const adapter = createAdapter();
+    const client = createHttpClient({
+      adapter,
+      defaults: { baseURL: 'https://api.example.com', headers: { Authorization: 'Bearer token' } },
+    });
+    const api = defineApi(client, {
+      search: {
+        method: 'GET',
+        path: '/search',
+        query: typed<{ q: string }>(),
+        defaults: { timeout: 30000, headers: { 'X-Endpoint': 'search' }, params: { limit: 10 } },
+      },
+    });
+
+    await api.search({ query: { q: 'ann' }, config: { headers: { 'X-Trace': '1' }, params: { limit: 20 } } });
+
+    expect(adapter.request).toHaveBeenCalledWith({
+      baseURL: 'https://api.example.com',
+      timeout: 30000,
+      headers: { Authorization: 'Bearer token', 'X-Endpoint': 'search', 'X-Trace': '1' },
+      params: { limit: 20, q: 'ann' },
+      url: '/search',
+      method: 'GET',
+    });
+  });
+
+  it('body 应该作为请求数据发送', async () => {
+    const adapter = createAdapter();
+    const api = defineApi(createHttpClient({ adapter }), {
+      createUser: { method: 'POST', path: '/users', body: typed<{ name: string }>(), response: UserSchema },
+    });
+
+    await api.createUser({ body: { name: 'Ann' } });
+
+    expect(adapter.request).toHaveBeenCalledWith(expect.objectContaining({
+      url: '/users',
+      method: 'POST',
+      data: { name: 'Ann' },
+    }));
+  });
+
+  it('should run endpoint middlewares only for that endpoint', async () => {
+    const seen: string[] = [];
+    const api = defineApi(createHttpClient({ adapter: createAdapter() }), {
+      getUser: {
+        method: 'GET',
+        path: '/users/:id',
+        middlewares: [
+          async (ctx, next) => {
+            seen.push(buildUrl(ctx.request));
+            await next();
+          },
+        ],
+      },
+      ping: { method: 'GET', path: '/ping' },
+    });
+
+    await api.getUser({ params: { id: 1 } });
+    await api.ping();
+    // @ts-expect-error /ping 没有路径参数，不接受 params
+    await api.ping({ params: { id: 1 } });
+
+    expect(seen).toEqual(['/users/1']);
+  });
+
+  it('should not validate the response without the validation middleware', async () => {
+    const api = defineApi(createHttpClient({ adapter: createAdapter({ id: 'oops' }) }), {
+      getUser: { method: 'GET', path: '/users/:id', response: UserSchema },
+    });
+
+    const response = await api.getUser({ params: { id: 1 } });
+
+    // 类型为 User，但数据未经校验
+    expect(response.data).toEqual({ id: 'oops' });
+  });
+
+  it('注册校验中间件后应该校验响应', async () => {
+    const client = createHttpClient({
+      adapter: createAdapter({ id: 'oops' }),
+      middlewares: [createValidationMiddleware()],
+    });
+    const api = defineApi(client, {
+      getUser: { method: 'GET', path: '/users/:id', response: UserSchema },
+    });
+
+    const error = await api.getUser({ params: { id: 1 } }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    expect(error.path).toEqual(['id']);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * 中间件诊断模式测试
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { composeMiddlewares } from '../src/engine/compose';
+import { MiddlewareEngine } from '../src/engine/middlewareEngine';
+import { MiddlewareTimeoutError } from '../src/engine/errors';
+import type { MiddlewareDiagnostic } from '../src/engine/middlewareTypes';
+
+interface TestContext {
+  logs: string[];
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+describe('diagnostics', () => {
+  it('should flag a next() that is not awaited', async () => {
+    const diagnostics: MiddlewareDiagnostic[] = [];
+    const composed = composeMiddlewares<TestContext>(
+      [
+        async function forgetful(ctx, next) {
+          void next();
+        },
+        async (ctx, next) => {
+          await sleep(5);
+          await next();
+        },
+      ],
+      undefined,
+      { diagnostics: { onDiagnostic: (diagnostic) => diagnostics.push(diagnostic) } }
+    );
+
+    await composed({ logs: [] });
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ type: 'floating-next', name: 'forgetful', index: 0 });
+    expect(diagnostics[0].message).toContain('did you forget to await next()');
+  });
+
+  it('should flag and ignore next() called after completion', async () => {
+    const diagnostics: MiddlewareDiagnostic[] = [];
+    const finalHandler = vi.fn(async () => {});
+    let lateNext: (() => Promise<void>) | undefined;
+
+    const engine = new MiddlewareEngine<TestContext>({
+      diagnostics: { onDiagnostic: (diagnostic) => diagnostics.push(diagnostic) },
+    });
+    engine.use(async (ctx, next) => {
+      lateNext = next;
+    }, { name: 'deferred' });
+
+    await engine.dispatch({ logs: [] }, finalHandler);
+    await lateNext?.();
+
+    expect(finalHandler).not.toHaveBeenCalled();
+    expect(diagnostics.map((diagnostic) => [diagnostic.type, diagnostic.name])).toEqual([['late-next', 'deferred']]);
+  });
+
+  it('should report to console.warn by default', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const composed = composeMiddlewares<TestContext>(
+      [async (ctx, next) => {
+        void next();
+      }],
+      () => sleep(5),
+      { diagnostics: true }
+    );
+
+    await composed({ logs: [] });
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('<anonymous#0>'));
+    warn.mockRestore();
+  });
+
+  it('should fail the dispatch when a middleware exceeds its time budget', async () => {
+    const engine = new MiddlewareEngine<TestContext>({ diagnostics: { timeout: 20 } });
+    engine.use(async (ctx, next) => next(), { name: 'outer' });
+    engine.use(() => new Promise<void>(() => {}), { name: 'hanging' });
+
+    const error = await engine.dispatch({ logs: [] }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(MiddlewareTimeoutError);
+    expect(error).toMatchObject({ middlewareName: 'hanging', index: 1, budget: 20 });
+    expect(error.message).toBe('Middleware "hanging" (#1) exceeded its time budget of 20ms');
+  });
+
+  it('should not count downstream time against the budget', async () => {
+    const engine = new MiddlewareEngine<TestContext>({ diagnostics: { timeout: 30 } });
+    engine.use(async (ctx, next) => {
+      await sleep(10);
+      await next();
+      await sleep(10);
+    }, { name: 'outer' });
+
+    await expect(engine.dispatch({ logs: [] }, () => sleep(60))).resolves.toBeUndefined();
+  });
+
+  it('should preserve errors thrown by middlewares', async () => {
+    const composed = composeMiddlewares<TestContext>(
+      [async () => {
+        throw new Error('boom');
+      }],
+      undefined,
+      { diagnostics: { timeout: 100 } }
+    );
+
+    await expect(composed({ logs: [] })).rejects.toThrow('boom');
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * MiddlewareEngine 基准测试
+ *
+ * 对比旧实现（每次 dispatch 重新组合中间件，代码原样拷贝）与复用已编译链的耗时
+ *
+ * 运行：pnpm bench
+ */
+
+import { bench, describe } from 'vitest';
+import { MiddlewareEngine } from '../src/engine/middlewareEngine';
+import type { Middleware, NextFunction } from '../src/engine/middlewareTypes';
+
+interface BenchContext {
+  count: number;
+}
+
+const middlewares: Middleware<BenchContext>[] = Array.from({ length: 20 }, () => async (ctx, next) => {
+  ctx.count++;
+  await next();
+});
+const extraMiddlewares: Middleware<BenchContext>[] = [
+  async (ctx, next) => {
+    ctx.count++;
+    await next();
+  },
+];
+const finalHandler = async (): Promise<void> => {};
+
+const engine = new MiddlewareEngine<BenchContext>({ middlewares });
+
+/**
+ * 旧实现的 composeMiddlewares（原样拷贝自引入编译链之前的 src/engine/compose.ts）
+ */
+function legacyComposeMiddlewares<C = Record<string, unknown>>(
+  middlewares: Middleware<C>[],
+  finalHandler?: () => Promise<void>
+): (ctx: C) => Promise<void> {
+  // 验证中间件数组
+  if (!Array.isArray(middlewares)) {
+    throw new TypeError('Middlewares must be an array');
+  }
+
+  for (const middleware of middlewares) {
+    if (typeof middleware !== 'function') {
+      throw new TypeError('Middleware must be a function');
+    }
+  }
+
+  return async function composed(ctx: C): Promise<void> {
+    // 用于检测 next() 是否被重复调用
+    let currentIndex = -1;
+
+    async function dispatch(index: number): Promise<void> {
+      // 检测 next() 被重复调用
+      if (index <= currentIndex) {
+        throw new Error('next() called multiple times');
+      }
+      currentIndex = index;
+
+      // 获取当前中间件
+      const middleware = middlewares[index];
+
+      if (index === middlewares.length) {
+        // 所有中间件执行完毕，执行 finalHandler（如果存在）
+        if (finalHandler) {
+          await finalHandler();
+        }
+        return;
+      }
+
+      if (!middleware) {
+        return;
+      }
+
+      // 创建 next 函数，调用下一个中间件
+      const next: NextFunction = () => dispatch(index + 1);
+
+      // 执行当前中间件
+      await middleware(ctx, next);
+    }
+
+    // 从第一个中间件开始执行
+    await dispatch(0);
+  };
+}
+
+/**
+ * 旧实现的 MiddlewareEngine.dispatch：每次合并中间件并重新组合
+ */
+async function legacyDispatch(
+  ctx: BenchContext,
+  finalHandler?: () => Promise<void>,
+  extraMiddlewares?: Middleware<BenchContext>[]
+): Promise<void> {
+  // 合并中间件：全局中间件 + 额外中间件
+  const allMiddlewares: Middleware<BenchContext>[] = extraMiddlewares
+    ? [...middlewares, ...extraMiddlewares]
+    : middlewares;
+
+  // 组合并执行中间件链
+  const composed = legacyComposeMiddlewares(allMiddlewares, finalHandler);
+  await composed(ctx);
+}
+
+describe('dispatch', () => {
+  bench('recompose on every dispatch (previous behaviour)', async () => {
+    await legacyDispatch({ count: 0 }, finalHandler);
+  });
+
+  bench('compiled chain (MiddlewareEngine)', async () => {
+    await engine.dispatch({ count: 0 }, finalHandler);
+  });
+});
+
+describe('dispatch with per-request middlewares', () => {
+  bench('recompose on every dispatch (previous behaviour)', async () => {
+    await legacyDispatch({ count: 0 }, finalHandler, extraMiddlewares);
+  });
+
+  bench('layered on compiled chain (MiddlewareEngine)', async () => {
+    await engine.dispatch({ count: 0 }, finalHandler, extraMiddlewares);
+  });
+});
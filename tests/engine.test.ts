@@ -2,9 +2,19 @@
  * MiddlewareEngine 测试
  */
 
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { MiddlewareEngine, createMiddlewareEngine } from '../src/engine/middlewareEngine';
-import type { Middleware } from '../src/engine/middlewareTypes';
+import { compileMiddlewares } from '../src/engine/compose';
+import { defineMiddleware } from '../src/engine/middlewareMeta';
+import { when } from '../src/engine/combinators';
+import { createHttpClient } from '../src/client/httpClient';
+import type { HttpContext, Middleware, MiddlewareObject } from '../src/engine/middlewareTypes';
+
+// 包装 compileMiddlewares 以统计编译次数
+vi.mock('../src/engine/compose', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../src/engine/compose')>();
+  return { ...actual, compileMiddlewares: vi.fn(actual.compileMiddlewares) };
+});
 
 describe('MiddlewareEngine', () => {
   interface TestContext {
@@ -38,7 +48,7 @@ describe('MiddlewareEngine', () => {
       engine.use(mw);
 
       expect(engine.getMiddlewares()).toHaveLength(1);
-      expect(engine.getMiddlewares()[0]).toBe(mw);
+      expect(engine.getMiddlewares()[0].middleware).toBe(mw);
     });
 
     it('should add middlewares in registration order', () => {
@@ -50,8 +60,8 @@ describe('MiddlewareEngine', () => {
       engine.use(mw2);
 
       const middlewares = engine.getMiddlewares();
-      expect(middlewares[0]).toBe(mw1);
-      expect(middlewares[1]).toBe(mw2);
+      expect(middlewares[0].middleware).toBe(mw1);
+      expect(middlewares[1].middleware).toBe(mw2);
     });
 
     it('should validate that middleware must be a function', () => {
@@ -64,6 +74,119 @@ describe('MiddlewareEngine', () => {
     });
   });
 
+  describe('具名注册与定位插入', () => {
+    const noop: Middleware<TestContext> = async (ctx, next) => next();
+
+    it('use() should return a disposer', async () => {
+      const engine = new MiddlewareEngine<TestContext>();
+      const ctx: TestContext = { logs: [] };
+
+      const dispose = engine.use(async (ctx, next) => {
+        ctx.logs.push('temp');
+        await next();
+      });
+
+      dispose();
+      dispose();
+      await engine.dispatch(ctx);
+
+      expect(engine.getMiddlewares()).toHaveLength(0);
+      expect(ctx.logs).toEqual([]);
+    });
+
+    it('should report names and order', () => {
+      const engine = new MiddlewareEngine<TestContext>();
+      engine.use(noop, { name: 'auth' });
+      engine.use(noop, { name: 'retry' });
+      engine.use(noop);
+
+      expect(engine.getMiddlewares().map((entry) => entry.name)).toEqual([
+        'auth',
+        'retry',
+        undefined,
+      ]);
+    });
+
+    it('should insert relative to named anchors', async () => {
+      const engine = new MiddlewareEngine<TestContext>();
+      const ctx: TestContext = { logs: [] };
+      const log = (label: string): Middleware<TestContext> => async (ctx, next) => {
+        ctx.logs.push(label);
+        await next();
+      };
+
+      engine.use(log('auth'), { name: 'auth' });
+      engine.use(log('retry'), { name: 'retry' });
+      engine.insertBefore('retry', log('cache'), 'cache');
+      engine.insertAfter('auth', log('trace'));
+      engine.use(log('first'), { name: 'first', before: 'auth' });
+
+      await engine.dispatch(ctx);
+
+      expect(ctx.logs).toEqual(['first', 'auth', 'trace', 'cache', 'retry']);
+      expect(engine.getMiddlewares().map((entry) => entry.name)).toEqual([
+        'first',
+        'auth',
+        undefined,
+        'cache',
+        'retry',
+      ]);
+    });
+
+    it('should reject duplicate names and unknown anchors', () => {
+      const engine = new MiddlewareEngine<TestContext>();
+      engine.use(noop, { name: 'auth' });
+
+      expect(() => engine.use(noop, { name: 'auth' })).toThrow('Middleware "auth" is already registered');
+      expect(() => engine.insertBefore('missing', noop)).toThrow('Middleware "missing" is not registered');
+      expect(engine.getMiddlewares()).toHaveLength(1);
+    });
+
+    it('remove() should support names and function references', () => {
+      const engine = new MiddlewareEngine<TestContext>();
+      const anonymous: Middleware<TestContext> = async (ctx, next) => next();
+      engine.use(noop, { name: 'auth' });
+      engine.use(anonymous);
+
+      expect(engine.remove('auth')).toBe(true);
+      expect(engine.remove('auth')).toBe(false);
+      expect(engine.remove(anonymous)).toBe(true);
+      expect(engine.getMiddlewares()).toEqual([]);
+    });
+
+    it('replace() should keep name and position', async () => {
+      const engine = new MiddlewareEngine<TestContext>();
+      const ctx: TestContext = { logs: [] };
+
+      engine.use(noop, { name: 'auth' });
+      engine.use(async (ctx, next) => {
+        ctx.logs.push('logger');
+        await next();
+      });
+      engine.replace('auth', async (ctx, next) => {
+        ctx.logs.push('new-auth');
+        await next();
+      });
+
+      await engine.dispatch(ctx);
+
+      expect(ctx.logs).toEqual(['new-auth', 'logger']);
+      expect(engine.getMiddlewares()[0].name).toBe('auth');
+      expect(() => engine.replace('missing', noop)).toThrow('Middleware "missing" is not registered');
+    });
+
+    it('disposer should only remove its own registration', () => {
+      const engine = new MiddlewareEngine<TestContext>();
+      const dispose = engine.use(noop, { name: 'auth' });
+
+      engine.remove('auth');
+      engine.use(noop, { name: 'auth' });
+      dispose();
+
+      expect(engine.getMiddlewares().map((entry) => entry.name)).toEqual(['auth']);
+    });
+  });
+
   describe('getMiddlewares()', () => {
     it('should return a copy of middleware list', () => {
       const engine = new MiddlewareEngine<TestContext>();
@@ -78,6 +201,24 @@ describe('MiddlewareEngine', () => {
     });
   });
 
+  describe('getPipeline()', () => {
+    it('应该返回排序后的完整链（含父引擎的中间件）', () => {
+      const parent = new MiddlewareEngine<TestContext>();
+      const child = parent.extend();
+      const log: Middleware<TestContext> = async (ctx, next) => next();
+      const auth = defineMiddleware<TestContext>(async (ctx, next) => next(), { name: 'auth', phase: 'auth' });
+
+      child.use(log, { name: 'log' });
+      parent.use(auth);
+
+      expect(child.getPipeline()).toEqual([
+        { name: 'auth', middleware: auth },
+        { name: 'log', middleware: log },
+      ]);
+      expect(child.getMiddlewares()).toHaveLength(1);
+    });
+  });
+
   describe('dispatch()', () => {
     it('should execute middlewares in onion model', async () => {
       const engine = new MiddlewareEngine<TestContext>();
@@ -241,3 +382,500 @@ describe('createMiddlewareEngine', () => {
     expect(engine.getMiddlewares()).toHaveLength(1);
   });
 });
+
+describe('MiddlewareEngine 错误边界', () => {
+  interface ErrorContext {
+    logs: string[];
+    error?: Error;
+    recovered?: boolean;
+  }
+
+  it('should call onError handlers with error and ctx', async () => {
+    const handler = vi.fn();
+    const engine = new MiddlewareEngine<ErrorContext>({ onError: handler });
+    const ctx: ErrorContext = { logs: [] };
+    const error = new Error('boom');
+
+    engine.use(async () => {
+      throw error;
+    });
+
+    await expect(engine.dispatch(ctx)).rejects.toBe(error);
+    expect(handler).toHaveBeenCalledWith(error, ctx);
+  });
+
+  it('should normalize non-Error values for handlers', async () => {
+    const engine = new MiddlewareEngine<ErrorContext>();
+    const handler = vi.fn();
+    engine.onError(handler);
+
+    await expect(engine.dispatch({ logs: [] }, async () => {
+      throw 'raw';
+    })).rejects.toBe('raw');
+    expect(handler.mock.calls[0][0]).toBeInstanceOf(Error);
+    expect(handler.mock.calls[0][0].message).toBe('raw');
+  });
+
+  it('handler throwing should map the error and stop later handlers', async () => {
+    const later = vi.fn();
+    const engine = new MiddlewareEngine<ErrorContext>({
+      onError: [
+        (error) => {
+          throw new Error(`mapped: ${error.message}`);
+        },
+        later,
+      ],
+    });
+
+    await expect(engine.dispatch({ logs: [] }, async () => {
+      throw new Error('boom');
+    })).rejects.toThrow('mapped: boom');
+    expect(later).not.toHaveBeenCalled();
+  });
+
+  it('should swallow the error when isRecovered returns true', async () => {
+    const engine = new MiddlewareEngine<ErrorContext>({
+      isRecovered: (ctx) => ctx.recovered === true,
+    });
+    const ctx: ErrorContext = { logs: [] };
+    engine.onError((error, ctx) => {
+      ctx.recovered = true;
+    });
+
+    await expect(engine.dispatch(ctx, async () => {
+      throw new Error('boom');
+    })).resolves.toBeUndefined();
+  });
+
+  it('onError() should return a disposer', async () => {
+    const engine = new MiddlewareEngine<ErrorContext>();
+    const handler = vi.fn();
+    const dispose = engine.onError(handler);
+    dispose();
+
+    await expect(engine.dispatch({ logs: [] }, async () => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('captureError should expose the error to outer middlewares', async () => {
+    const engine = new MiddlewareEngine<ErrorContext>({
+      captureError: (ctx, error) => {
+        ctx.error = error;
+      },
+    });
+    const ctx: ErrorContext = { logs: [] };
+
+    engine.use(async (ctx, next) => {
+      try {
+        await next();
+      } catch {
+        ctx.logs.push(`outer saw: ${ctx.error?.message}`);
+      }
+    });
+    engine.use(async () => {
+      throw new Error('inner');
+    });
+
+    await engine.dispatch(ctx);
+
+    expect(ctx.logs).toEqual(['outer saw: inner']);
+  });
+});
+
+describe('MiddlewareEngine 编译缓存', () => {
+  interface TestContext {
+    logs: string[];
+  }
+
+  const push = (label: string): Middleware<TestContext> => async (ctx, next) => {
+    ctx.logs.push(label);
+    await next();
+  };
+
+  beforeEach(() => {
+    vi.mocked(compileMiddlewares).mockClear();
+  });
+
+  it('should compile the global chain once across dispatches', async () => {
+    const engine = new MiddlewareEngine<TestContext>({ middlewares: [push('a'), push('b')] });
+
+    await engine.dispatch({ logs: [] });
+    await engine.dispatch({ logs: [] });
+    await engine.dispatch({ logs: [] });
+
+    expect(compileMiddlewares).toHaveBeenCalledTimes(1);
+  });
+
+  it('should invalidate the cache on use / remove / replace / dispose', async () => {
+    const engine = new MiddlewareEngine<TestContext>();
+    const ctx = (): TestContext => ({ logs: [] });
+
+    const dispose = engine.use(push('a'), { name: 'a' });
+    let current = ctx();
+    await engine.dispatch(current);
+    expect(current.logs).toEqual(['a']);
+
+    engine.use(push('b'), { name: 'b' });
+    current = ctx();
+    await engine.dispatch(current);
+    expect(current.logs).toEqual(['a', 'b']);
+
+    engine.replace('b', push('b2'));
+    current = ctx();
+    await engine.dispatch(current);
+    expect(current.logs).toEqual(['a', 'b2']);
+
+    engine.remove('b');
+    dispose();
+    current = ctx();
+    await engine.dispatch(current);
+    expect(current.logs).toEqual([]);
+
+    expect(compileMiddlewares).toHaveBeenCalledTimes(4);
+  });
+
+  it('should layer extra middlewares without recompiling the global chain', async () => {
+    const engine = new MiddlewareEngine<TestContext>({ middlewares: [push('g1'), push('g2')] });
+
+    const first: TestContext = { logs: [] };
+    const second: TestContext = { logs: [] };
+    await engine.dispatch(first, undefined, [push('e1')]);
+    await engine.dispatch(second, undefined, [push('e2')]);
+
+    expect(first.logs).toEqual(['g1', 'g2', 'e1']);
+    expect(second.logs).toEqual(['g1', 'g2', 'e2']);
+    // 全局链编译 1 次 + 每次请求编译 per-request 链
+    expect(compileMiddlewares).toHaveBeenCalledTimes(3);
+    expect(vi.mocked(compileMiddlewares).mock.calls.slice(1).map((call) => call[0].length)).toEqual([1, 1]);
+  });
+
+  it('per-request 中间件应该插在 transport-near 阶段的全局中间件之外，且不重新编译全局链', async () => {
+    const engine = new MiddlewareEngine<TestContext>({
+      middlewares: [defineMiddleware(push('near'), { phase: 'transport-near' }), push('g1')],
+    });
+
+    const first: TestContext = { logs: [] };
+    const second: TestContext = { logs: [] };
+    await engine.dispatch(first, undefined, [push('e1')]);
+    await engine.dispatch(second, undefined, [push('e2')]);
+
+    expect(first.logs).toEqual(['g1', 'e1', 'near']);
+    expect(second.logs).toEqual(['g1', 'e2', 'near']);
+    expect(engine.describe([push('e3')]).split('\n')).toHaveLength(3);
+    // 全局链、外层链各编译 1 次，内层链按 per-request 数量缓存，之后每次请求只编译 per-request 链
+    expect(vi.mocked(compileMiddlewares).mock.calls.map((call) => call[0].length)).toEqual([2, 1, 1, 1, 1]);
+  });
+
+  it('should keep the layered fast path through createHttpClient', async () => {
+    const client = createHttpClient({
+      adapter: { request: vi.fn().mockResolvedValue({ data: null, status: 200, statusText: 'OK', headers: {}, config: {} }) },
+      middlewares: [async (ctx, next) => next()],
+    });
+    const extra: Middleware<HttpContext> = async (ctx, next) => next();
+
+    await client.request({ url: '/a', method: 'GET' }, [extra]);
+    vi.mocked(compileMiddlewares).mockClear();
+    await client.request({ url: '/b', method: 'GET' }, [extra]);
+
+    expect(vi.mocked(compileMiddlewares).mock.calls.map((call) => call[0])).toEqual([[extra]]);
+  });
+
+  it('should merge and sort when per-request middlewares declare constraints', async () => {
+    const engine = new MiddlewareEngine<TestContext>({ middlewares: [push('g1')] });
+    const ctx: TestContext = { logs: [] };
+
+    await engine.dispatch(ctx, undefined, [
+      defineMiddleware(push('auth'), { name: 'auth', phase: 'auth' }),
+    ]);
+
+    expect(ctx.logs).toEqual(['auth', 'g1']);
+  });
+
+  it('in-flight dispatches should keep the chain they started with', async () => {
+    const engine = new MiddlewareEngine<TestContext>();
+    const ctx: TestContext = { logs: [] };
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+    engine.use(async (ctx, next) => {
+      ctx.logs.push('slow');
+      await gate;
+      await next();
+    });
+
+    const running = engine.dispatch(ctx);
+    engine.use(push('late'));
+    release();
+    await running;
+
+    expect(ctx.logs).toEqual(['slow']);
+  });
+});
+
+describe('层级引擎', () => {
+  interface TestContext {
+    logs: string[];
+  }
+
+  const push = (label: string): Middleware<TestContext> => async (ctx, next) => {
+    ctx.logs.push(label);
+    await next();
+  };
+
+  it('extend() should inherit parent middlewares live', async () => {
+    const parent = new MiddlewareEngine<TestContext>({ middlewares: [push('p1')] });
+    const child = parent.extend({ middlewares: [push('c1')] });
+
+    let ctx: TestContext = { logs: [] };
+    await child.dispatch(ctx);
+    expect(ctx.logs).toEqual(['p1', 'c1']);
+
+    const dispose = parent.use(push('p2'));
+    ctx = { logs: [] };
+    await child.dispatch(ctx);
+    expect(ctx.logs).toEqual(['p1', 'p2', 'c1']);
+
+    dispose();
+    ctx = { logs: [] };
+    await child.dispatch(ctx);
+    expect(ctx.logs).toEqual(['p1', 'c1']);
+  });
+
+  it('changes to a child should not affect the parent or siblings', async () => {
+    const parent = new MiddlewareEngine<TestContext>({ middlewares: [push('p')] });
+    const a = parent.fork();
+    const b = parent.fork();
+    a.use(push('a'));
+
+    const parentCtx: TestContext = { logs: [] };
+    const bCtx: TestContext = { logs: [] };
+    await parent.dispatch(parentCtx);
+    await b.dispatch(bCtx);
+
+    expect(parentCtx.logs).toEqual(['p']);
+    expect(bCtx.logs).toEqual(['p']);
+    expect(a.getMiddlewares()).toHaveLength(1);
+  });
+
+  it('should propagate through multiple levels and sort across them', async () => {
+    const root = new MiddlewareEngine<TestContext>();
+    const middle = root.fork();
+    const leaf = middle.extend({ middlewares: [push('leaf')] });
+
+    middle.use(push('middle'));
+    root.use(defineMiddleware(push('auth'), { name: 'auth', phase: 'auth' }));
+    leaf.use(defineMiddleware(push('pre'), { name: 'pre', phase: 'pre-auth' }));
+
+    const ctx: TestContext = { logs: [] };
+    await leaf.dispatch(ctx, undefined, [push('extra')]);
+
+    expect(ctx.logs).toEqual(['pre', 'auth', 'middle', 'leaf', 'extra']);
+    expect(leaf.describe()).toBe('1. pre [phase: pre-auth]\n2. auth [phase: auth]\n3. <anonymous#2>\n4. <anonymous#3>');
+  });
+
+  it('should inherit error handlers, trace hooks and options', async () => {
+    const reported: string[] = [];
+    const traced: string[] = [];
+    const parent = new MiddlewareEngine<TestContext>({
+      onError: (error) => {
+        reported.push(`parent: ${error.message}`);
+      },
+    });
+    const child = parent.extend({
+      onError: (error) => {
+        reported.push(`child: ${error.message}`);
+      },
+    });
+    child.use(push('child'), { name: 'child' });
+    parent.instrument((event) => {
+      if (event.type === 'enter') traced.push(event.name);
+    });
+
+    await expect(child.dispatch({ logs: [] }, async () => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    expect(reported).toEqual(['child: boom', 'parent: boom']);
+    expect(traced).toEqual(['child']);
+  });
+
+  it('toMiddleware() should mount an engine inside another chain', async () => {
+    const sub = new MiddlewareEngine<TestContext>({ middlewares: [push('sub1'), push('sub2')] });
+    const app = new MiddlewareEngine<TestContext>({ middlewares: [push('app')] });
+    app.use(sub.toMiddleware());
+    app.use(push('tail'));
+
+    const ctx: TestContext = { logs: [] };
+    await app.dispatch(ctx, async () => {
+      ctx.logs.push('final');
+    });
+
+    expect(ctx.logs).toEqual(['app', 'sub1', 'sub2', 'tail', 'final']);
+  });
+});
+
+describe('有返回值的链', () => {
+  interface Command {
+    input: number;
+    logs: string[];
+  }
+
+  it('dispatch() should resolve to the value returned through the chain', async () => {
+    const engine = createMiddlewareEngine<Command, number>({
+      middlewares: [async (_ctx, next) => (await next()) * 2],
+    });
+
+    await expect(engine.dispatch({ input: 3, logs: [] }, async () => 3)).resolves.toBe(6);
+  });
+
+  it('per-request 中间件分层执行时也应该传递结果', async () => {
+    const engine = new MiddlewareEngine<Command, number>();
+    engine.use(async (_ctx, next) => (await next()) + 1);
+
+    const result = await engine.dispatch({ input: 0, logs: [] }, async () => 10, [
+      async (_ctx, next) => (await next()) * 10,
+    ]);
+
+    expect(result).toBe(101);
+  });
+
+  it('toMiddleware() 应该把子引擎的结果交给父链', async () => {
+    const child = createMiddlewareEngine<Command, number>({
+      middlewares: [async (_ctx, next) => (await next()) * 2],
+    });
+    const parent = createMiddlewareEngine<Command, number>({
+      middlewares: [async (_ctx, next) => (await next()) + 1, when((ctx) => ctx.input > 0, child.toMiddleware())],
+    });
+
+    await expect(parent.dispatch({ input: 1, logs: [] }, async () => 5)).resolves.toBe(11);
+    await expect(parent.dispatch({ input: 0, logs: [] }, async () => 5)).resolves.toBe(6);
+  });
+
+  it('追踪钩子与诊断模式不应该吞掉结果', async () => {
+    const engine = createMiddlewareEngine<Command, number>({
+      middlewares: [async (ctx, next) => {
+        ctx.logs.push('log');
+        await next();
+      }],
+      instrument: vi.fn(),
+      diagnostics: true,
+    });
+
+    await expect(engine.dispatch({ input: 0, logs: [] }, async () => 7)).resolves.toBe(7);
+  });
+
+  it('错误被恢复时 dispatch 应该解析为 undefined', async () => {
+    const engine = createMiddlewareEngine<Command, number>({
+      onError: () => undefined,
+      isRecovered: () => true,
+    });
+
+    const result = await engine.dispatch({ input: 0, logs: [] }, async () => {
+      throw new Error('boom');
+    });
+
+    expect(result).toBeUndefined();
+  });
+});
+
+describe('生命周期', () => {
+  interface TestContext {
+    logs: string[];
+  }
+
+  it('should accept object middlewares and call setup with the engine', async () => {
+    const setup = vi.fn();
+    const object: MiddlewareObject<TestContext> = {
+      name: 'object',
+      setup,
+      async handle(ctx, next) {
+        ctx.logs.push('object');
+        await next();
+      },
+    };
+
+    const engine = new MiddlewareEngine<TestContext>({ middlewares: [object] });
+    const ctx: TestContext = { logs: [] };
+    await engine.dispatch(ctx);
+
+    expect(setup).toHaveBeenCalledWith(engine);
+    expect(ctx.logs).toEqual(['object']);
+    expect(engine.getMiddlewares().map((entry) => entry.name)).toEqual(['object']);
+    expect(engine.remove(object)).toBe(true);
+    expect(engine.getMiddlewares()).toHaveLength(0);
+  });
+
+  it('should roll back registration when setup throws', () => {
+    const engine = new MiddlewareEngine<TestContext>();
+
+    expect(() => engine.use({
+      name: 'broken',
+      setup() {
+        throw new Error('setup failed');
+      },
+      handle: async (_ctx, next) => next(),
+    })).toThrow('setup failed');
+    expect(engine.getMiddlewares()).toHaveLength(0);
+  });
+
+  it('dispose() should tear down own middlewares in reverse order, once per hook', async () => {
+    const logs: string[] = [];
+    const first = defineMiddleware<TestContext>(async (_ctx, next) => next(), {
+      dispose: () => {
+        logs.push('first');
+      },
+    });
+    const second: MiddlewareObject<TestContext> = {
+      dispose: async () => {
+        logs.push('second');
+      },
+      handle: async (_ctx, next) => next(),
+    };
+
+    const parent = new MiddlewareEngine<TestContext>();
+    const parentDispose = vi.fn();
+    parent.use({ dispose: parentDispose, handle: async (_ctx, next) => next() });
+
+    const engine = parent.extend({ middlewares: [first, second] });
+    engine.use(when(() => true, first));
+
+    const disposing = engine.dispose();
+    expect(engine.dispose()).toBe(disposing);
+    await disposing;
+
+    expect(logs).toEqual(['first', 'second']);
+    expect(parentDispose).not.toHaveBeenCalled();
+  });
+
+  it('should reject dispatches and registrations after dispose', async () => {
+    const parent = new MiddlewareEngine<TestContext>();
+    const child = parent.fork();
+    await parent.dispose();
+
+    await expect(parent.dispatch({ logs: [] })).rejects.toThrow('Middleware engine has been disposed');
+    await expect(child.dispatch({ logs: [] })).rejects.toThrow('Middleware engine has been disposed');
+    expect(() => parent.use(async (_ctx, next) => next())).toThrow('Middleware engine has been disposed');
+  });
+
+  it('should call every dispose hook even if one fails', async () => {
+    const disposed = vi.fn();
+    const engine = new MiddlewareEngine<TestContext>({
+      middlewares: [
+        { dispose: disposed, handle: async (_ctx, next) => next() },
+        {
+          dispose: () => {
+            throw new Error('dispose failed');
+          },
+          handle: async (_ctx, next) => next(),
+        },
+      ],
+    });
+
+    await expect(engine.dispose()).rejects.toThrow('dispose failed');
+    expect(disposed).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * 错误类型测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  AbortError,
+  HttpError,
+  NetworkError,
+  ParseError,
+  RequestError,
+  TimeoutError,
+  isAbortError,
+  isHttpError,
+  isNetworkError,
+  isParseError,
+  isRequestError,
+  isTimeoutError,
+  parseProblemDetails,
+} from '../src/engine';
+import type { RequestConfig } from '../src/engine';
+
+const config: RequestConfig = { url: '/users/1', method: 'GET' };
+
+describe('错误类型', () => {
+  it('all request errors should extend RequestError', () => {
+    const errors = [
+      new HttpError({ status: 500, config }),
+      new TimeoutError(1000, { config }),
+      new NetworkError('Failed to fetch', { config }),
+      new AbortError(),
+      new ParseError('Unexpected token', { config }),
+    ];
+
+    for (const error of errors) {
+      expect(error).toBeInstanceOf(RequestError);
+      expect(error).toBeInstanceOf(Error);
+      expect(isRequestError(error)).toBe(true);
+    }
+    expect(errors.map((error) => error.name)).toEqual([
+      'HttpError',
+      'TimeoutError',
+      'NetworkError',
+      'AbortError',
+      'ParseError',
+    ]);
+  });
+
+  it('类型守卫只匹配对应的错误类型', () => {
+    const httpError = new HttpError({ status: 404 });
+    const timeoutError = new TimeoutError(100);
+
+    expect(isHttpError(httpError)).toBe(true);
+    expect(isHttpError(timeoutError)).toBe(false);
+    expect(isTimeoutError(timeoutError)).toBe(true);
+    expect(isNetworkError(new NetworkError())).toBe(true);
+    expect(isAbortError(new AbortError())).toBe(true);
+    expect(isParseError(new ParseError('bad json'))).toBe(true);
+    expect(isRequestError(new Error('plain'))).toBe(false);
+  });
+
+  it('HttpError should expose status, headers, body and config', () => {
+    const error = new HttpError({
+      status: 404,
+      statusText: 'Not Found',
+      headers: { 'content-type': 'application/json' },
+      body: { message: 'missing' },
+      config,
+    });
+
+    expect(error.message).toBe('HTTP Error: 404 Not Found');
+    expect(error.status).toBe(404);
+    expect(error.headers).toEqual({ 'content-type': 'application/json' });
+    expect(error.body).toEqual({ message: 'missing' });
+    expect(error.config).toBe(config);
+    expect(error.problem).toBeUndefined();
+  });
+
+  it('problem+json 响应体应该解析为 problem', () => {
+    const error = new HttpError({
+      status: 403,
+      statusText: 'Forbidden',
+      headers: { 'Content-Type': 'application/problem+json; charset=utf-8' },
+      body: {
+        type: 'https://example.com/probs/out-of-credit',
+        title: 'You do not have enough credit.',
+        detail: 'Your current balance is 30, but that costs 50.',
+        balance: 30,
+      },
+    });
+
+    expect(error.problem).toEqual({
+      type: 'https://example.com/probs/out-of-credit',
+      title: 'You do not have enough credit.',
+      detail: 'Your current balance is 30, but that costs 50.',
+      balance: 30,
+    });
+    expect(error.message).toBe('HTTP Error: 403 Forbidden - Your current balance is 30, but that costs 50.');
+  });
+});
+
+describe('parseProblemDetails', () => {
+  const headers = { 'content-type': 'application/problem+json' };
+
+  it('should default type to about:blank', () => {
+    expect(parseProblemDetails({ title: 'Not Found', status: 404 }, headers)).toEqual({
+      type: 'about:blank',
+      title: 'Not Found',
+      status: 404,
+    });
+  });
+
+  it('非 problem+json 或响应体不是对象时返回 undefined', () => {
+    expect(parseProblemDetails({ title: 'Not Found' }, { 'content-type': 'application/json' })).toBeUndefined();
+    expect(parseProblemDetails('Not Found', headers)).toBeUndefined();
+    expect(parseProblemDetails([], headers)).toBeUndefined();
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * hedge 组合器测试
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { hedge } from '../src/engine/hedge';
+import { composeMiddlewares } from '../src/engine/compose';
+import { createMiddlewareEngine } from '../src/engine/middlewareEngine';
+import { AbortError } from '../src/engine/errors';
+import { createHttpClient } from '../src/client/httpClient';
+import type { HttpAdapter, HttpContext, Middleware, RequestConfig, ResponseData } from '../src/engine';
+
+interface TestContext {
+  signal?: AbortSignal;
+  attempts: number[];
+  state: { winner?: number };
+}
+
+/**
+ * 按调用顺序依次使用给定的耗时（ms）完成，被取消时以 AbortError 拒绝
+ */
+function createDelayedHandler(durations: number[]) {
+  const signals: AbortSignal[] = [];
+  let calls = 0;
+
+  const handler = vi.fn((ctx: TestContext) => {
+    const attempt = calls++;
+    const duration = durations[attempt];
+    signals.push(ctx.signal as AbortSignal);
+    ctx.attempts.push(attempt);
+    ctx.state.winner = attempt;
+
+    return new Promise<number>((resolve, reject) => {
+      const timer = setTimeout(() => resolve(attempt), duration);
+      ctx.signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new AbortError());
+      });
+    });
+  });
+
+  return { handler, signals };
+}
+
+function createContext(): TestContext {
+  return { attempts: [], state: {} };
+}
+
+describe('hedge', () => {
+  it('should start another attempt after delay and take the first to finish', async () => {
+    const { handler, signals } = createDelayedHandler([200, 10]);
+    const ctx = createContext();
+
+    const composed = composeMiddlewares<TestContext, number>([hedge({ delay: 20 })], handler);
+
+    await expect(composed(ctx)).resolves.toBe(1);
+    expect(handler).toHaveBeenCalledTimes(2);
+    // 胜出尝试的上下文合并回原上下文，signal 保持不变
+    expect(ctx.state.winner).toBe(1);
+    expect(ctx.signal).toBeUndefined();
+    // 落败的尝试被取消
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[1].aborted).toBe(false);
+  });
+
+  it('下游在 delay 内完成时不应该发起额外尝试', async () => {
+    const { handler } = createDelayedHandler([0]);
+
+    const composed = composeMiddlewares<TestContext, number>([hedge({ delay: 50 })], handler);
+
+    await expect(composed(createContext())).resolves.toBe(0);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('delay 为 0 时应该同时发起全部尝试', async () => {
+    const { handler } = createDelayedHandler([30, 20, 5]);
+
+    const composed = composeMiddlewares<TestContext, number>([hedge({ delay: 0, attempts: 3 })], handler);
+
+    await expect(composed(createContext())).resolves.toBe(2);
+    expect(handler).toHaveBeenCalledTimes(3);
+  });
+
+  it('should re-run downstream middlewares with a cloned context per attempt', async () => {
+    const { handler } = createDelayedHandler([100, 0]);
+    const seen: TestContext[] = [];
+    const record: Middleware<TestContext, number> = async (ctx, next) => {
+      seen.push(ctx);
+      await next();
+    };
+    const ctx = createContext();
+
+    const composed = composeMiddlewares<TestContext, number>([hedge({ delay: 10 }), record], handler);
+    await composed(ctx);
+
+    expect(seen).toHaveLength(2);
+    expect(seen[0]).not.toBe(seen[1]);
+    expect(seen[0].state).not.toBe(ctx.state);
+    expect(seen[0].signal).not.toBe(seen[1].signal);
+  });
+
+  it('某次尝试失败时应该立即发起下一次尝试', async () => {
+    const finalHandler = vi.fn()
+      .mockRejectedValueOnce(new Error('first failed'))
+      .mockResolvedValueOnce(42);
+
+    const composed = composeMiddlewares<TestContext, number>([hedge({ delay: 10_000 })], finalHandler);
+
+    await expect(composed(createContext())).resolves.toBe(42);
+    expect(finalHandler).toHaveBeenCalledTimes(2);
+  });
+
+  it('全部尝试失败时应该以第一个错误拒绝', async () => {
+    const finalHandler = vi.fn()
+      .mockRejectedValueOnce(new Error('first failed'))
+      .mockRejectedValueOnce(new Error('second failed'));
+
+    const composed = composeMiddlewares<TestContext, number>([hedge({ delay: 10 })], finalHandler);
+
+    await expect(composed(createContext())).rejects.toThrow('first failed');
+  });
+
+  it('should abort all attempts when the original signal is aborted', async () => {
+    const { handler, signals } = createDelayedHandler([1000, 1000]);
+    const controller = new AbortController();
+    const ctx: TestContext = { ...createContext(), signal: controller.signal };
+
+    const composed = composeMiddlewares<TestContext, number>([hedge({ delay: 0 })], handler);
+    const pending = composed(ctx);
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(AbortError);
+    expect(signals.every((signal) => signal.aborted)).toBe(true);
+  });
+
+  it('默认不带注册名，可以注册多个实例', () => {
+    const engine = createMiddlewareEngine<TestContext>({
+      middlewares: [hedge({ delay: 10 }), hedge({ delay: 20 }), hedge({ delay: 30, name: 'slow-hedge' })],
+    });
+
+    expect(engine.getMiddlewares().map((entry) => entry.name)).toEqual([undefined, undefined, 'slow-hedge']);
+    expect(engine.remove('slow-hedge')).toBe(true);
+  });
+
+  it('should validate options', () => {
+    expect(() => hedge({ delay: 10, attempts: 0 })).toThrow('Hedge attempts must be a positive integer');
+    expect(() => hedge({ delay: -1 })).toThrow('Hedge delay must be a non-negative number');
+  });
+
+  it('诊断模式下不应该把被取消的尝试报告为未 await 的 next()', async () => {
+    const { handler } = createDelayedHandler([100, 0]);
+    const onDiagnostic = vi.fn();
+    const engine = createMiddlewareEngine<TestContext, number>({
+      middlewares: [hedge({ delay: 10 })],
+      diagnostics: { onDiagnostic },
+    });
+
+    await expect(engine.dispatch(createContext(), handler)).resolves.toBe(1);
+    expect(onDiagnostic).not.toHaveBeenCalled();
+  });
+
+  it('toMiddleware() 挂载的子引擎内的 hedge 应该分叉外层后续部分', async () => {
+    const { handler } = createDelayedHandler([100, 0]);
+    const child = createMiddlewareEngine<TestContext, number>({ middlewares: [hedge({ delay: 10 })] });
+    const parent = createMiddlewareEngine<TestContext, number>({
+      middlewares: [child.toMiddleware(), async (_ctx, next) => (await next()) + 10],
+    });
+
+    await expect(parent.dispatch(createContext(), handler)).resolves.toBe(11);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('hedge with createHttpClient', () => {
+  it('should send a hedged request and cancel the slower one', async () => {
+    const signals: AbortSignal[] = [];
+    const adapter: HttpAdapter = {
+      request: vi.fn((config: RequestConfig) => {
+        const attempt = signals.length;
+        signals.push(config.signal as AbortSignal);
+        return new Promise<ResponseData>((resolve, reject) => {
+          const timer = setTimeout(() => resolve({
+            data: `attempt-${attempt}`,
+            status: 200,
+            statusText: 'OK',
+            headers: {},
+            config,
+          }), attempt === 0 ? 200 : 5);
+          config.signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(new AbortError());
+          });
+        });
+      }) as unknown as HttpAdapter['request'],
+    };
+    const client = createHttpClient({
+      adapter,
+      middlewares: [hedge<HttpContext>({ delay: 20 })],
+    });
+
+    const response = await client.get<string>('/users');
+
+    expect(response.data).toBe('attempt-1');
+    expect(adapter.request).toHaveBeenCalledTimes(2);
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[1].aborted).toBe(false);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * 中间件追踪与描述测试
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { MiddlewareEngine } from '../src/engine/middlewareEngine';
+import { composeMiddlewares } from '../src/engine/compose';
+import { defineMiddleware } from '../src/engine/middlewareMeta';
+import type {
+  Middleware,
+  MiddlewareExitEvent,
+  MiddlewareTraceEvent,
+} from '../src/engine/middlewareTypes';
+
+interface TestContext {
+  logs: string[];
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+describe('instrumentation', () => {
+  it('composeMiddlewares should emit enter/exit events per middleware', async () => {
+    const events: MiddlewareTraceEvent<TestContext>[] = [];
+    const auth: Middleware<TestContext> = defineMiddleware(async (ctx, next) => next(), { name: 'auth' });
+    async function logger(ctx: TestContext, next: () => Promise<void>) {
+      await next();
+    }
+
+    const composed = composeMiddlewares<TestContext>([auth, logger, async (ctx, next) => next()], undefined, {
+      instrument: (event) => events.push(event),
+    });
+    await composed({ logs: [] });
+
+    expect(events.map((event) => `${event.type}:${event.name}:${event.index}`)).toEqual([
+      'enter:auth:0',
+      'enter:logger:1',
+      'enter:<anonymous#2>:2',
+      'exit:<anonymous#2>:2',
+      'exit:logger:1',
+      'exit:auth:0',
+    ]);
+  });
+
+  it('should measure time before and after next()', async () => {
+    const exits: MiddlewareExitEvent<TestContext>[] = [];
+    const engine = new MiddlewareEngine<TestContext>({
+      instrument: (event) => {
+        if (event.type === 'exit') exits.push(event);
+      },
+    });
+
+    engine.use(async (ctx, next) => {
+      await sleep(20);
+      await next();
+      await sleep(20);
+    }, { name: 'slow' });
+
+    await engine.dispatch({ logs: [] }, () => sleep(20));
+
+    const [slow] = exits;
+    expect(slow.name).toBe('slow');
+    expect(slow.beforeNext).toBeGreaterThanOrEqual(15);
+    expect(slow.afterNext).toBeGreaterThanOrEqual(15);
+    expect(slow.downstream).toBeGreaterThanOrEqual(15);
+    expect(slow.shortCircuited).toBe(false);
+    expect(slow.threw).toBe(false);
+  });
+
+  it('should report short-circuits and errors', async () => {
+    const exits: MiddlewareExitEvent<TestContext>[] = [];
+    const engine = new MiddlewareEngine<TestContext>();
+    engine.instrument((event) => {
+      if (event.type === 'exit') exits.push(event);
+    });
+
+    engine.use(async (ctx, next) => next(), { name: 'outer' });
+    engine.use(async () => {
+      throw new Error('boom');
+    }, { name: 'failing' });
+
+    await expect(engine.dispatch({ logs: [] })).rejects.toThrow('boom');
+
+    expect(exits.map((event) => [event.name, event.shortCircuited, event.threw])).toEqual([
+      ['failing', true, true],
+      ['outer', false, true],
+    ]);
+    expect(exits[0].error?.message).toBe('boom');
+  });
+
+  it('should keep per-request indexes after global middlewares', async () => {
+    const names: string[] = [];
+    const engine = new MiddlewareEngine<TestContext>();
+    engine.instrument((event) => {
+      if (event.type === 'enter') names.push(`${event.name}@${event.index}`);
+    });
+    engine.use(async (ctx, next) => next(), { name: 'global' });
+
+    await engine.dispatch({ logs: [] }, undefined, [async (ctx, next) => next()]);
+
+    expect(names).toEqual(['global@0', '<anonymous#1>@1']);
+  });
+
+  it('throwing hooks should not break the chain', async () => {
+    const other = vi.fn();
+    const engine = new MiddlewareEngine<TestContext>();
+    engine.instrument(() => {
+      throw new Error('hook failure');
+    });
+    engine.instrument(other);
+    engine.use(async (ctx, next) => {
+      ctx.logs.push('ran');
+      await next();
+    });
+
+    const ctx: TestContext = { logs: [] };
+    await engine.dispatch(ctx);
+
+    expect(ctx.logs).toEqual(['ran']);
+    expect(other).toHaveBeenCalledTimes(2);
+  });
+
+  it('disposing the hook should stop emitting events', async () => {
+    const hook = vi.fn();
+    const engine = new MiddlewareEngine<TestContext>();
+    engine.use(async (ctx, next) => next());
+    const dispose = engine.instrument(hook);
+
+    await engine.dispatch({ logs: [] });
+    dispose();
+    await engine.dispatch({ logs: [] });
+
+    expect(hook).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('describe()', () => {
+  it('should print the resolved chain', () => {
+    const engine = new MiddlewareEngine<TestContext>();
+    engine.use(async (ctx, next) => next(), { name: 'retry' });
+    engine.use(defineMiddleware<TestContext>(async (ctx, next) => next(), { name: 'auth', phase: 'auth' }));
+
+    expect(engine.describe()).toBe('1. auth [phase: auth]\n2. retry');
+    expect(engine.describe([
+      defineMiddleware<TestContext>(async (ctx, next) => next(), { name: 'audit', runsAfter: ['retry'] }),
+    ])).toBe('1. auth [phase: auth]\n2. retry\n3. audit [runsAfter: retry]');
+  });
+
+  it('should describe an empty chain', () => {
+    expect(new MiddlewareEngine<TestContext>().describe()).toBe('(empty)');
+  });
+});
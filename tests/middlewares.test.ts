@@ -1,6 +1,28 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 
-import { cacheMiddleware, createRetryMiddleware, createThrottleMiddleware } from '../src/engine';
+import {
+  AbortError,
+  cacheMiddleware,
+  createCacheMiddleware,
+  createMiddlewareEngine,
+  createRetryMiddleware,
+  createThrottleMiddleware,
+  createValidationMiddleware,
+  createTransformMiddleware,
+  camelCaseKeys,
+  snakeCaseKeys,
+  reviveDates,
+  parseJsonLossless,
+  stringifyJsonLossless,
+  ResponseValidationError,
+  route,
+  type HttpAdapter,
+  type HttpContext,
+  type RequestConfig,
+  type ResponseSchema,
+  type ResponseValidator,
+} from '../src/engine';
+import { createHttpClient } from '../src/client/httpClient';
 
 describe('middlewares', () => {
   it('cacheMiddleware should cache GET responses', async () => {
@@ -24,6 +46,28 @@ describe('middlewares', () => {
     expect(ctx.response).toEqual({ data: 'ok' });
   });
 
+  it('销毁引擎不应该清空共享的 cacheMiddleware', async () => {
+    const ctx: any = {
+      request: { method: 'GET', url: '/shared' },
+      response: undefined,
+      error: undefined,
+      state: {}
+    };
+
+    let called = 0;
+    const next = async () => {
+      called++;
+      ctx.response = { data: called };
+    };
+
+    await cacheMiddleware(ctx, next);
+    await createMiddlewareEngine<HttpContext>({ middlewares: [cacheMiddleware] }).dispose();
+    await cacheMiddleware(ctx, next);
+
+    expect(called).toBe(1);
+    expect(ctx.response).toEqual({ data: 1 });
+  });
+
   it('createRetryMiddleware should retry when next throws', async () => {
     const retry = createRetryMiddleware({ retries: 2, delay: 0 });
     const ctx: any = {
@@ -43,6 +87,39 @@ describe('middlewares', () => {
     expect(called).toBe(3);
   });
 
+  it('createRetryMiddleware should re-run the adapter inside a client chain', async () => {
+    const request = vi.fn()
+      .mockRejectedValueOnce(new Error('socket hang up'))
+      .mockResolvedValueOnce({ data: 'ok', status: 200, statusText: 'OK', headers: {}, config: {} });
+    const seen: number[] = [];
+    const client = createHttpClient({
+      adapter: { request },
+      middlewares: [
+        createRetryMiddleware({ retries: 2, delay: 0 }),
+        async (ctx, next) => {
+          seen.push(request.mock.calls.length);
+          await next();
+        },
+      ],
+    });
+
+    await expect(client.get('/flaky')).resolves.toMatchObject({ data: 'ok' });
+    expect(request).toHaveBeenCalledTimes(2);
+    // 重试时内层中间件同样重新执行
+    expect(seen).toEqual([0, 1]);
+  });
+
+  it('createRetryMiddleware should surface the adapter error once retries are exhausted', async () => {
+    const request = vi.fn().mockRejectedValue(new Error('socket hang up'));
+    const client = createHttpClient({
+      adapter: { request },
+      middlewares: [createRetryMiddleware({ retries: 2, delay: 0 })],
+    });
+
+    await expect(client.get('/down')).rejects.toThrow('socket hang up');
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
   it('createThrottleMiddleware should allow requests up to limit', async () => {
     const throttle = createThrottleMiddleware({ limit: 2, interval: 20 });
     const ctx: any = {
@@ -60,4 +137,444 @@ describe('middlewares', () => {
     await Promise.all([throttle(ctx, next), throttle(ctx, next)]);
     expect(called).toBe(2);
   });
+
+  it('createCacheMiddleware instances should not share cache and should clear on dispose', async () => {
+    const first = createCacheMiddleware();
+    const second = createCacheMiddleware();
+    const ctx: any = {
+      request: { method: 'GET', url: '/y' },
+      response: undefined,
+      error: undefined,
+      state: {}
+    };
+
+    let called = 0;
+    const next = async () => {
+      called++;
+      ctx.response = { data: called };
+    };
+
+    await first(ctx, next);
+    await second(ctx, next);
+    expect(called).toBe(2);
+
+    const engine = createMiddlewareEngine<HttpContext>({ middlewares: [first] });
+    await engine.dispose();
+
+    await first(ctx, next);
+    expect(called).toBe(3);
+  });
+
+  it('createThrottleMiddleware should reject queued requests on dispose', async () => {
+    const throttle = createThrottleMiddleware({ limit: 1, interval: 1000 });
+    const engine = createMiddlewareEngine<HttpContext>({ middlewares: [throttle] });
+    const ctx: any = {
+      request: { method: 'GET', url: '/x' },
+      response: undefined,
+      error: undefined,
+      state: {}
+    };
+    const next = async () => {};
+
+    await throttle(ctx, next);
+    const queued = throttle(ctx, next);
+
+    await engine.dispose();
+
+    await expect(queued).rejects.toThrow('Throttle middleware has been disposed');
+  });
+
+  it('createRetryMiddleware should stop retrying once the signal is aborted', async () => {
+    const retry = createRetryMiddleware({ retries: 3, delay: 10_000 });
+    const controller = new AbortController();
+    const ctx: any = {
+      request: { method: 'GET', url: '/x' },
+      response: undefined,
+      error: undefined,
+      signal: controller.signal,
+      state: {}
+    };
+
+    let called = 0;
+    const next = async () => {
+      called++;
+      throw new Error('boom');
+    };
+
+    const pending = retry(ctx, next);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(AbortError);
+    expect(called).toBe(1);
+  });
+
+  it('createThrottleMiddleware should drop queued requests when aborted', async () => {
+    const throttle = createThrottleMiddleware({ limit: 1, interval: 10_000 });
+    const controller = new AbortController();
+    const ctx: any = {
+      request: { method: 'GET', url: '/x' },
+      response: undefined,
+      error: undefined,
+      state: {}
+    };
+
+    let called = 0;
+    const next = async () => {
+      called++;
+    };
+
+    await throttle(ctx, next);
+    const queued = throttle({ ...ctx, signal: controller.signal }, next);
+    controller.abort();
+
+    await expect(queued).rejects.toBeInstanceOf(AbortError);
+    expect(called).toBe(1);
+  });
+
+  it('内置中间件默认不带注册名，可以注册多个实例', () => {
+    const engine = createMiddlewareEngine<HttpContext>({
+      middlewares: [
+        createCacheMiddleware(),
+        createCacheMiddleware(),
+        createRetryMiddleware(),
+        createRetryMiddleware(),
+        createThrottleMiddleware(),
+        createThrottleMiddleware(),
+      ],
+    });
+
+    expect(engine.getMiddlewares().map((entry) => entry.name)).toEqual(Array(6).fill(undefined));
+  });
+
+  it('should register built-in middlewares under the name option', () => {
+    const engine = createMiddlewareEngine<HttpContext>({
+      middlewares: [
+        createCacheMiddleware({ name: 'cache' }),
+        createRetryMiddleware({ name: 'retry' }),
+        createThrottleMiddleware({ name: 'throttle' }),
+      ],
+    });
+
+    expect(engine.getMiddlewares().map((entry) => entry.name)).toEqual(['cache', 'retry', 'throttle']);
+    expect(() => engine.use(createRetryMiddleware({ name: 'retry' }))).toThrow('Middleware "retry" is already registered');
+  });
+});
+
+describe('createValidationMiddleware', () => {
+  interface User {
+    id: number;
+    name: string;
+  }
+
+  /**
+   * 模拟 zod：失败时抛出带 issues 的错误，成功时返回去掉多余字段的数据
+   */
+  const UserSchema: ResponseSchema<User> = {
+    parse(input) {
+      const data = input as Record<string, unknown>;
+      if (typeof data.id !== 'number') {
+        throw Object.assign(new Error('Invalid response'), {
+          issues: [{ path: ['id'], message: 'Expected number, received string' }],
+        });
+      }
+      return { id: data.id, name: String(data.name) };
+    },
+  };
+
+  function createContext(validate?: ResponseValidator): HttpContext {
+    return {
+      request: { method: 'GET', url: '/users/1', validate },
+      response: undefined,
+      error: undefined,
+      state: {},
+    };
+  }
+
+  function respond(ctx: HttpContext, data: unknown) {
+    return async () => {
+      ctx.response = { data, status: 200, statusText: 'OK', headers: {}, config: ctx.request };
+    };
+  }
+
+  it('should replace response data with the parsed result', async () => {
+    const ctx = createContext(UserSchema);
+
+    await createValidationMiddleware()(ctx, respond(ctx, { id: 1, name: 'Ann', extra: true }));
+
+    expect(ctx.response?.data).toEqual({ id: 1, name: 'Ann' });
+  });
+
+  it('schema 校验失败时应该抛出带字段路径的 ResponseValidationError', async () => {
+    const ctx = createContext(UserSchema);
+
+    const error = await createValidationMiddleware()(ctx, respond(ctx, { id: '1' })).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    expect(error.path).toEqual(['id']);
+    expect(error.message).toBe('Response validation failed at "id": Expected number, received string');
+    expect(error.response.data).toEqual({ id: '1' });
+    expect(error.config).toBe(ctx.request);
+  });
+
+  it('should read valibot-style path segments', async () => {
+    const schema: ResponseSchema<unknown> = {
+      parse() {
+        throw Object.assign(new Error('Invalid type'), {
+          issues: [{ path: [{ key: 'items' }, { key: 0 }], message: 'Invalid type' }],
+        });
+      },
+    };
+    const ctx = createContext(schema);
+
+    const error = await createValidationMiddleware()(ctx, respond(ctx, { items: [null] })).catch((e) => e);
+
+    expect(error.path).toEqual(['items', 0]);
+  });
+
+  it('谓词返回 false 时应该以根路径报错', async () => {
+    const ctx = createContext((data) => Array.isArray(data));
+
+    const error = await createValidationMiddleware()(ctx, respond(ctx, {})).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    expect(error.path).toEqual([]);
+    expect(error.message).toBe('Response validation failed');
+  });
+
+  it('请求配置的 validate 应该优先于中间件选项', async () => {
+    const fallback = vi.fn(() => false);
+    const ctx = createContext(() => true);
+
+    await createValidationMiddleware({ validate: fallback })(ctx, respond(ctx, {}));
+
+    expect(fallback).not.toHaveBeenCalled();
+  });
+
+  it('should validate per endpoint with route() and keep invalid responses out of the cache', async () => {
+    const request = vi.fn()
+      .mockResolvedValueOnce({ data: { id: 'oops' }, status: 200, statusText: 'OK', headers: {}, config: {} })
+      .mockResolvedValueOnce({ data: { id: 1, name: 'Ann' }, status: 200, statusText: 'OK', headers: {}, config: {} })
+      .mockResolvedValueOnce({ data: { id: 'post' }, status: 200, statusText: 'OK', headers: {}, config: {} });
+    const client = createHttpClient({
+      adapter: { request },
+      middlewares: [
+        createCacheMiddleware(),
+        route({ method: 'GET', path: '/users/:id' }, createValidationMiddleware({ validate: UserSchema })),
+      ],
+    });
+
+    await expect(client.get('/users/1')).rejects.toBeInstanceOf(ResponseValidationError);
+    await expect(client.get('/users/1')).resolves.toMatchObject({ data: { id: 1, name: 'Ann' } });
+    await expect(client.get('/users/1')).resolves.toMatchObject({ data: { id: 1, name: 'Ann' } });
+    expect(request).toHaveBeenCalledTimes(2);
+    // 其他接口不校验
+    await expect(client.get('/posts/1')).resolves.toMatchObject({ data: { id: 'post' } });
+  });
+
+  it('多个接口应该可以分别注册校验中间件', async () => {
+    const isPost: ResponseValidator = (data) =>
+      typeof (data as { title?: unknown }).title === 'string';
+    const request = vi.fn(async (config: RequestConfig) => ({
+      data: config.url.startsWith('/users') ? { id: 1, name: 'Ann' } : { title: 1 },
+      status: 200,
+      statusText: 'OK',
+      headers: {},
+      config,
+    }));
+    const client = createHttpClient({
+      adapter: { request } as HttpAdapter,
+      middlewares: [
+        route({ method: 'GET', path: '/users/:id' }, createValidationMiddleware({ validate: UserSchema })),
+        route({ method: 'GET', path: '/posts/:id' }, createValidationMiddleware({ validate: isPost })),
+      ],
+    });
+
+    await expect(client.get('/users/1')).resolves.toMatchObject({ data: { id: 1, name: 'Ann' } });
+    await expect(client.get('/posts/1')).rejects.toBeInstanceOf(ResponseValidationError);
+  });
+});
+
+describe('createTransformMiddleware', () => {
+  /**
+   * 按 responseType 返回响应：text 时返回原始文本，否则返回 JSON.parse 的结果
+   */
+  function createAdapter(body: string, headers: Record<string, string> = { 'content-type': 'application/json' }) {
+    const requests: RequestConfig[] = [];
+    const adapter: HttpAdapter = {
+      request: vi.fn(async (config: RequestConfig) => {
+        requests.push(config);
+        return {
+          data: config.responseType === 'text' ? body : JSON.parse(body),
+          status: 200,
+          statusText: 'OK',
+          headers,
+          config,
+        };
+      }) as unknown as HttpAdapter['request'],
+    };
+    return { adapter, requests };
+  }
+
+  it('should convert request keys to snake_case and response keys to camelCase', async () => {
+    const { adapter, requests } = createAdapter('{"user_id":1,"created_at":"2026-01-02T03:04:05Z","metadata":{"raw_key":1}}');
+    const client = createHttpClient({
+      adapter,
+      middlewares: [
+        createTransformMiddleware({
+          request: [snakeCaseKeys()],
+          response: [camelCaseKeys({ exclude: ['metadata'] }), reviveDates()],
+        }),
+      ],
+    });
+
+    const response = await client.post('/users', { firstName: 'Ann', tagList: [{ tagName: 'x' }] }, {
+      params: { pageSize: 10 },
+    });
+
+    expect(requests[0].data).toEqual({ first_name: 'Ann', tag_list: [{ tag_name: 'x' }] });
+    expect(requests[0].params).toEqual({ page_size: 10 });
+    expect(response.data).toEqual({
+      userId: 1,
+      createdAt: new Date(Date.UTC(2026, 0, 2, 3, 4, 5)),
+      metadata: { raw_key: 1 },
+    });
+  });
+
+  it('should run inside the client interceptors even when registered on a parent engine', async () => {
+    const { adapter, requests } = createAdapter('{"user_id":1}');
+    const transform = createTransformMiddleware({ request: [snakeCaseKeys()], response: [camelCaseKeys()] });
+    // 父引擎的中间件注册在 client 的 interceptors 之前，顺序只能由 runsAfter 保证
+    const engine = createMiddlewareEngine<HttpContext>({ middlewares: [transform] });
+    const client = createHttpClient({ adapter, engine });
+    const seen: unknown[] = [];
+    client.interceptors.request.use((config) => {
+      seen.push(config.data);
+      return { ...config, data: { ...(config.data as object), traceId: 't1' } };
+    });
+    client.interceptors.response.use((response) => {
+      seen.push(response.data);
+      return response;
+    });
+
+    await client.post('/users', { firstName: 'Ann' });
+
+    expect(client.getPipeline().map((entry) => entry.middleware)).toEqual([expect.any(Function), transform]);
+    expect(client.getPipeline()[0].name).toBe('interceptors');
+    // 拦截器看到的是转换前的请求与转换后的响应，拦截器改动的请求同样被转换
+    expect(seen).toEqual([{ firstName: 'Ann' }, { userId: 1 }]);
+    expect(requests[0].data).toEqual({ first_name: 'Ann', trace_id: 't1' });
+  });
+
+  it('should register under the name option only', () => {
+    const engine = createMiddlewareEngine<HttpContext>({
+      middlewares: [createTransformMiddleware(), createTransformMiddleware({ name: 'transform' })],
+    });
+
+    expect(engine.getMiddlewares().map((entry) => entry.name)).toEqual([undefined, 'transform']);
+  });
+
+  it('bigint 选项应该无损解析与序列化大整数', async () => {
+    const { adapter, requests } = createAdapter('{"id":9007199254740993,"count":1,"name":"12345678901234567890"}');
+    const client = createHttpClient({ adapter, middlewares: [createTransformMiddleware({ bigint: true })] });
+
+    const response = await client.put('/items', { id: 9007199254740995n });
+
+    expect(requests[0].responseType).toBe('text');
+    expect(requests[0].data).toBe('{"id":9007199254740995}');
+    expect(requests[0].headers).toMatchObject({ 'Content-Type': 'application/json' });
+    expect(response.data).toEqual({ id: 9007199254740993n, count: 1, name: '12345678901234567890' });
+  });
+
+  it('should skip transforms per request through RequestConfig.transform', async () => {
+    const { adapter, requests } = createAdapter('{"user_id":1}');
+    const client = createHttpClient({
+      adapter,
+      middlewares: [createTransformMiddleware({ request: [snakeCaseKeys()], response: [camelCaseKeys()] })],
+    });
+
+    const skipped = await client.post('/a', { userId: 1 }, { transform: false });
+    const responseOnly = await client.post('/b', { userId: 1 }, { transform: { request: false } });
+
+    expect(requests.map((request) => request.data)).toEqual([{ userId: 1 }, { userId: 1 }]);
+    expect(skipped.data).toEqual({ user_id: 1 });
+    expect(responseOnly.data).toEqual({ userId: 1 });
+  });
+
+  it('再次执行下游时不应该重复转换请求，下游结束后恢复原请求配置', async () => {
+    const transform = createTransformMiddleware({ request: [snakeCaseKeys()], bigint: true });
+    const original: RequestConfig = { method: 'POST', url: '/users', data: { userId: 1 } };
+    const ctx: HttpContext = { request: original, state: {} };
+    const sent: RequestConfig[] = [];
+    const next = async () => {
+      sent.push(ctx.request);
+      ctx.response = { data: '{}', status: 200, statusText: 'OK', headers: {}, config: ctx.request };
+    };
+
+    // 模拟外层中间件（如重试）再次执行
+    await transform(ctx, next);
+    await transform(ctx, next);
+
+    expect(sent.map((request) => [request.data, request.responseType])).toEqual([
+      ['{"user_id":1}', 'text'],
+      ['{"user_id":1}', 'text'],
+    ]);
+    expect(ctx.request).toBe(original);
+    expect(ctx.response?.data).toEqual({});
+  });
+
+  it('should leave BodyInit request bodies untouched', async () => {
+    const { adapter, requests } = createAdapter('{}');
+    const client = createHttpClient({
+      adapter,
+      middlewares: [createTransformMiddleware({ request: [snakeCaseKeys()], bigint: true })],
+    });
+    const form = new URLSearchParams({ userId: '1' });
+
+    await client.post('/users', form);
+
+    expect(requests[0].data).toBe(form);
+  });
+});
+
+describe('transformers', () => {
+  it('camelCaseKeys / snakeCaseKeys should convert nested keys', () => {
+    const info = { target: 'response' as const, request: { url: '/', method: 'GET' as const } };
+
+    expect(camelCaseKeys()({ _id: 1, user_name: { first_name: 'a' }, list: [{ item_id: 2 }] }, info)).toEqual({
+      _id: 1,
+      userName: { firstName: 'a' },
+      list: [{ itemId: 2 }],
+    });
+    expect(camelCaseKeys()({ __v: 1, x_y_z: 2, 'api--key_2': 3 }, info)).toEqual({ __v: 1, xYZ: 2, apiKey2: 3 });
+    expect(snakeCaseKeys({ exclude: [/^X-/] })({ HTMLParser: 1, userID: 2, 'X-Trace': { keepMe: 1 } }, info)).toEqual({
+      html_parser: 1,
+      user_id: 2,
+      'X-Trace': { keepMe: 1 },
+    });
+  });
+
+  it('reviveDates should only revive ISO strings under matching keys', () => {
+    const info = { target: 'response' as const, request: { url: '/', method: 'GET' as const } };
+
+    const result = reviveDates({ keys: /^(?:since|until)$/ })(
+      { since: '2026-01-01', until: 'not a date', note: '2026-01-01', nested: [{ since: '2026-02-30T00:00:00Z' }] },
+      info
+    ) as Record<string, unknown>;
+
+    expect(result.since).toEqual(new Date('2026-01-01'));
+    expect(result.until).toBe('not a date');
+    expect(result.note).toBe('2026-01-01');
+    expect(result.nested).toEqual([{ since: new Date('2026-02-30T00:00:00Z') }]);
+  });
+
+  it('parseJsonLossless / stringifyJsonLossless should round-trip large integers', () => {
+    const text = '{"a":-9007199254740993,"b":[1,2.5],"c":"id 9007199254740993 \\"x\\""}';
+
+    const value = parseJsonLossless(text);
+
+    expect(value).toEqual({ a: -9007199254740993n, b: [1, 2.5], c: 'id 9007199254740993 "x"' });
+    expect(stringifyJsonLossless(value)).toBe(text);
+    expect(parseJsonLossless('[1e21, 9007199254740991]')).toEqual([1e21, 9007199254740991]);
+  });
 });
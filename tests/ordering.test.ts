@@ -0,0 +1,124 @@
+/**
+ * 中间件阶段与排序约束测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MiddlewareEngine } from '../src/engine/middlewareEngine';
+import { defineMiddleware, getMiddlewareMeta } from '../src/engine/middlewareMeta';
+import { sortMiddlewares } from '../src/engine/ordering';
+import type { Middleware, MiddlewareMeta } from '../src/engine/middlewareTypes';
+import { cacheMiddleware, createRetryMiddleware } from '../src/engine';
+
+interface TestContext {
+  logs: string[];
+}
+
+function logger(label: string, meta: MiddlewareMeta = {}): Middleware<TestContext> {
+  return defineMiddleware<TestContext>(async (ctx, next) => {
+    ctx.logs.push(label);
+    await next();
+  }, { name: label, ...meta });
+}
+
+describe('defineMiddleware', () => {
+  it('should attach meta without mutating the original function', () => {
+    const original: Middleware<TestContext> = async (ctx, next) => next();
+    const defined = defineMiddleware(original, { name: 'auth', phase: 'auth' });
+
+    expect(defined).not.toBe(original);
+    expect(getMiddlewareMeta(defined)).toEqual({ name: 'auth', phase: 'auth' });
+    expect(getMiddlewareMeta(original)).toEqual({});
+  });
+
+  it('should merge meta when redefining', () => {
+    const auth = defineMiddleware<TestContext>(async (ctx, next) => next(), { name: 'auth', phase: 'auth' });
+    const renamed = defineMiddleware(auth, { name: 'auth-v2' });
+
+    expect(getMiddlewareMeta(renamed)).toEqual({ name: 'auth-v2', phase: 'auth' });
+  });
+
+  it('engine should use meta name as default registration name', () => {
+    const engine = new MiddlewareEngine<TestContext>();
+    engine.use(logger('auth'));
+    engine.use(logger('audit'), { name: 'custom' });
+
+    expect(engine.getMiddlewares().map((entry) => entry.name)).toEqual(['auth', 'custom']);
+  });
+});
+
+describe('middleware ordering', () => {
+  it('should keep registration order when no constraint is declared', async () => {
+    const engine = new MiddlewareEngine<TestContext>();
+    const ctx: TestContext = { logs: [] };
+    engine.use(logger('a'));
+    engine.use(logger('b'));
+
+    await engine.dispatch(ctx, undefined, [logger('c')]);
+
+    expect(ctx.logs).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should sort by phase across global and per-request middlewares', async () => {
+    const engine = new MiddlewareEngine<TestContext>();
+    const ctx: TestContext = { logs: [] };
+    engine.use(logger('logger'));
+    engine.use(logger('transport', { phase: 'transport-near' }));
+    engine.use(logger('cache', { phase: 'cache' }));
+
+    await engine.dispatch(ctx, undefined, [
+      logger('auth', { phase: 'auth' }),
+      logger('pre', { phase: 'pre-auth' }),
+      logger('extra'),
+    ]);
+
+    expect(ctx.logs).toEqual(['pre', 'auth', 'cache', 'logger', 'extra', 'transport']);
+  });
+
+  it('should honour runsBefore / runsAfter constraints', async () => {
+    const engine = new MiddlewareEngine<TestContext>();
+    const ctx: TestContext = { logs: [] };
+    engine.use(logger('retry'));
+    engine.use(logger('metrics', { runsAfter: ['retry'] }));
+
+    await engine.dispatch(ctx, undefined, [logger('trace', { runsBefore: ['retry'] })]);
+
+    expect(ctx.logs).toEqual(['trace', 'retry', 'metrics']);
+  });
+
+  it('should ignore constraints referring to absent middlewares', () => {
+    const entries = [logger('a', { runsAfter: ['missing'] }), logger('b')].map((middleware) => ({
+      name: getMiddlewareMeta(middleware).name,
+      middleware,
+    }));
+
+    expect(sortMiddlewares(entries).map((entry) => entry.name)).toEqual(['a', 'b']);
+  });
+
+  it('should fail loudly on a cycle', async () => {
+    const engine = new MiddlewareEngine<TestContext>();
+    engine.use(logger('a', { runsBefore: ['b'] }));
+    engine.use(logger('b', { runsBefore: ['c'] }));
+
+    await expect(
+      engine.dispatch({ logs: [] }, undefined, [logger('c', { runsBefore: ['a'] })])
+    ).rejects.toThrow('Middleware ordering cycle detected: a -> b -> c -> a');
+  });
+
+  it('should report conflicts between phases and constraints as a cycle', async () => {
+    const engine = new MiddlewareEngine<TestContext>();
+    engine.use(logger('auth', { phase: 'auth' }));
+    engine.use(logger('early', { phase: 'pre-auth', runsAfter: ['auth'] }));
+
+    await expect(engine.dispatch({ logs: [] })).rejects.toThrow('Middleware ordering cycle detected: auth -> early -> auth');
+  });
+
+  it('cacheMiddleware should run outside retry regardless of registration order', () => {
+    const retry = createRetryMiddleware();
+    const entries = [retry, cacheMiddleware].map((middleware) => ({
+      name: getMiddlewareMeta(middleware).name,
+      middleware,
+    }));
+
+    expect(sortMiddlewares(entries).map((entry) => entry.middleware)).toEqual([cacheMiddleware, retry]);
+  });
+});
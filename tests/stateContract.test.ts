@@ -0,0 +1,159 @@
+/**
+ * State 契约测试
+ */
+
+import { describe, it, expect, expectTypeOf, vi } from 'vitest';
+import { stateful } from '../src/engine/stateContract';
+import { createMiddlewareEngine } from '../src/engine/middlewareEngine';
+import { defineMiddleware, getMiddlewareMeta } from '../src/engine/middlewareMeta';
+import { createHttpClient } from '../src/client/httpClient';
+import type { HttpAdapter, HttpContext, RequestConfig } from '../src/engine';
+
+interface User {
+  id: string;
+}
+
+const authMiddleware = stateful<object, { user: User }>(async (ctx, next) => {
+  ctx.state.user = { id: 'u1' };
+  await next();
+});
+
+const auditMiddleware = stateful<{ user: User }, { auditId: string }>(async (ctx, next) => {
+  ctx.state.auditId = `audit-${ctx.state.user.id}`;
+  await next();
+});
+
+function createMockAdapter(): HttpAdapter {
+  return {
+    request: vi.fn().mockResolvedValue({
+      data: 'ok',
+      status: 200,
+      statusText: 'OK',
+      headers: {},
+      config: {} as RequestConfig,
+    }),
+  };
+}
+
+describe('stateful', () => {
+  it('should return the middleware itself and keep its metadata', () => {
+    const middleware = defineMiddleware<HttpContext>(async (_ctx, next) => next(), { name: 'auth', phase: 'auth' });
+
+    const declared = stateful<object, { user: User }>(middleware);
+
+    expect(declared).toBe(middleware);
+    expect(getMiddlewareMeta(declared)).toEqual({ name: 'auth', phase: 'auth' });
+  });
+
+  it('should throw TypeError for non-function', () => {
+    expect(() => stateful('invalid' as any)).toThrow(TypeError);
+  });
+});
+
+describe('engine.with()', () => {
+  it('should register middlewares and return the same engine', async () => {
+    const engine = createMiddlewareEngine<HttpContext>();
+    const typed = engine.with(authMiddleware).with(auditMiddleware, { name: 'audit' });
+
+    expect(typed).toBe(engine);
+    expect(engine.getMiddlewares().map((entry) => entry.name)).toEqual([undefined, 'audit']);
+
+    const ctx: HttpContext = { request: { url: '/', method: 'GET' }, state: {} };
+    await typed.dispatch(ctx as Parameters<typeof typed.dispatch>[0]);
+
+    expect(ctx.state).toEqual({ user: { id: 'u1' }, auditId: 'audit-u1' });
+  });
+
+  it('should accumulate provided keys into the context type', () => {
+    const engine = createMiddlewareEngine<HttpContext>().with(authMiddleware).with(auditMiddleware);
+    type State = Parameters<typeof engine.dispatch>[0]['state'];
+
+    expectTypeOf<State['user']>().toEqualTypeOf<User>();
+    expectTypeOf<State['auditId']>().toEqualTypeOf<string>();
+  });
+
+  it('should reject middlewares whose requires are not provided (compile time)', () => {
+    const engine = createMiddlewareEngine<HttpContext>();
+
+    // @ts-expect-error user 尚未由之前的中间件提供
+    expect(() => engine.with(auditMiddleware)).not.toThrow();
+  });
+});
+
+describe('use() / middlewares 的 requires 校验', () => {
+  it('should reject unmet requires in engine.use() and client.use() (compile time)', () => {
+    const engine = createMiddlewareEngine<HttpContext>();
+    const client = createHttpClient({ adapter: createMockAdapter() });
+
+    // @ts-expect-error user 未由上下文提供
+    engine.use(auditMiddleware);
+    // @ts-expect-error user 未由上下文提供
+    client.use(auditMiddleware);
+
+    // 普通中间件与 requires 已满足的中间件不受影响
+    engine.use(authMiddleware);
+    client.use(async (ctx, next) => {
+      ctx.request.headers = { ...ctx.request.headers, 'X-Trace': '1' };
+      await next();
+    });
+    createHttpClient<{ user: User }>({ adapter: createMockAdapter() }).use(auditMiddleware);
+  });
+
+  it('should check middlewares in order for createHttpClient() and extend() (compile time)', () => {
+    const adapter = createMockAdapter();
+
+    // @ts-expect-error user 未由之前的中间件提供
+    createHttpClient({ adapter, middlewares: [auditMiddleware] });
+    // @ts-expect-error auth 位于 audit 之内，audit 执行时 user 尚未写入
+    createHttpClient({ adapter, middlewares: [auditMiddleware, authMiddleware] });
+    // @ts-expect-error user 未由父 client 提供
+    createHttpClient({ adapter }).extend({ middlewares: [auditMiddleware] });
+
+    const client = createHttpClient({ adapter, middlewares: [authMiddleware, auditMiddleware] });
+    expect(client.getPipeline()).toHaveLength(3);
+  });
+});
+
+describe('client.with()', () => {
+  it('should register middlewares, return the same client and accumulate state', async () => {
+    const base = createHttpClient({ adapter: createMockAdapter() });
+    const client = base.with(authMiddleware).with(auditMiddleware, { name: 'audit' });
+    let auditId: string | undefined;
+
+    await client.request({ url: '/profile', method: 'GET' }, [
+      async (ctx, next) => {
+        auditId = ctx.state.auditId;
+        await next();
+      },
+    ]);
+
+    expect(client).toBe(base);
+    expect(client.getPipeline().map((entry) => entry.name)).toEqual([undefined, 'audit', 'interceptors']);
+    expect(auditId).toBe('audit-u1');
+    expectTypeOf<Parameters<Parameters<typeof client.onError>[0]>[1]['state']['user']>().toEqualTypeOf<User>();
+  });
+
+  it('should reject middlewares whose requires are not provided (compile time)', () => {
+    const client = createHttpClient({ adapter: createMockAdapter() });
+
+    // @ts-expect-error user 尚未由之前的中间件提供
+    expect(() => client.with(auditMiddleware)).not.toThrow();
+  });
+});
+
+describe('createHttpClient with typed engine', () => {
+  it('should expose accumulated state to per-request middlewares', async () => {
+    const engine = createMiddlewareEngine<HttpContext>().with(authMiddleware);
+    const client = createHttpClient({ adapter: createMockAdapter(), engine });
+    let userId: string | undefined;
+
+    await client.request({ url: '/profile', method: 'GET' }, [
+      async (ctx, next) => {
+        userId = ctx.state.user.id;
+        await next();
+      },
+    ]);
+
+    expect(userId).toBe('u1');
+  });
+});
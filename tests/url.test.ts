@@ -0,0 +1,124 @@
+/**
+ * URL 构建测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildUrl, interpolatePath, resolveUrl, serializeParams } from '../src/engine';
+import { appendQuery } from '../src/engine/url';
+
+describe('interpolatePath', () => {
+  it('should fill :name and {name} templates', () => {
+    expect(interpolatePath('/users/:id/posts/{postId}', { id: 1, postId: 'abc' })).toBe('/users/1/posts/abc');
+    expect(interpolatePath('/users/:id.json', { id: 7 })).toBe('/users/7.json');
+  });
+
+  it('参数值应该逐段百分号编码', () => {
+    expect(interpolatePath('/files/:name', { name: 'a/b c?.txt' })).toBe('/files/a%2Fb%20c%3F.txt');
+    expect(interpolatePath('/tags/{tag}', { tag: '#1&2' })).toBe('/tags/%231%262');
+  });
+
+  it('缺少可选参数时移除该段，缺少必填参数时抛出 TypeError', () => {
+    expect(interpolatePath('/posts/:page?', {})).toBe('/posts');
+    expect(interpolatePath('/posts/:page?', { page: 2 })).toBe('/posts/2');
+    expect(() => interpolatePath('/users/:id', { id: undefined })).toThrow(TypeError);
+    expect(() => interpolatePath('/users/{id}', {})).toThrow('Missing path parameter "id" for "/users/{id}"');
+  });
+
+  it('should leave host ports untouched', () => {
+    expect(interpolatePath('http://localhost:8080/users/:id', { id: 1 })).toBe('http://localhost:8080/users/1');
+  });
+});
+
+describe('resolveUrl', () => {
+  it('should join relative urls with baseURL using a single slash', () => {
+    expect(resolveUrl('/users', 'https://api.example.com/v1/')).toBe('https://api.example.com/v1/users');
+    expect(resolveUrl('users', 'https://api.example.com/v1')).toBe('https://api.example.com/v1/users');
+    expect(resolveUrl('', 'https://api.example.com')).toBe('https://api.example.com');
+    expect(resolveUrl('?page=1', 'https://api.example.com/users')).toBe('https://api.example.com/users?page=1');
+  });
+
+  it('绝对 URL 与没有 baseURL 时应该原样返回', () => {
+    expect(resolveUrl('https://other.example.com/a', 'https://api.example.com')).toBe('https://other.example.com/a');
+    expect(resolveUrl('/users')).toBe('/users');
+  });
+
+  it('协议相对 URL 应该沿用 baseURL 的协议', () => {
+    expect(resolveUrl('//cdn.example.com/a.js', 'https://api.example.com/v1')).toBe('https://cdn.example.com/a.js');
+    expect(resolveUrl('//cdn.example.com/a.js', '/api')).toBe('//cdn.example.com/a.js');
+  });
+});
+
+describe('buildUrl', () => {
+  it('should interpolate, resolve and append params', () => {
+    const url = buildUrl(
+      { url: '/users/:id', method: 'GET', pathParams: { id: 'a b' }, params: { expand: 'posts', skip: undefined } },
+      'https://api.example.com'
+    );
+
+    expect(url).toBe('https://api.example.com/users/a%20b?expand=posts');
+  });
+
+  it('请求配置的 baseURL 优先于默认 baseURL', () => {
+    expect(buildUrl({ url: '/users', method: 'GET', baseURL: 'https://b.example.com' }, 'https://a.example.com')).toBe(
+      'https://b.example.com/users'
+    );
+  });
+
+  it('未提供 pathParams 时保留路径模板', () => {
+    expect(buildUrl({ url: '/users/:id', method: 'GET' })).toBe('/users/:id');
+  });
+
+  it('query 应该追加在 hash 之前并与已有 query 合并', () => {
+    expect(appendQuery('/users?page=1#top', 'size=10')).toBe('/users?page=1&size=10#top');
+    expect(appendQuery('/users?', 'size=10')).toBe('/users?size=10');
+    expect(appendQuery('/users', '')).toBe('/users');
+  });
+});
+
+describe('serializeParams', () => {
+  const params = { ids: [1, 2], q: 'a b' };
+
+  it('数组默认重复键名，并跳过 undefined / null', () => {
+    expect(serializeParams({ ...params, skip: undefined, none: null, list: [1, null, 2] })).toBe(
+      'ids=1&ids=2&q=a+b&list=1&list=2'
+    );
+  });
+
+  it('should support brackets, indices and comma array formats', () => {
+    expect(decodeURIComponent(serializeParams(params, { arrayFormat: 'brackets' }))).toBe('ids[]=1&ids[]=2&q=a+b');
+    expect(decodeURIComponent(serializeParams(params, { arrayFormat: 'indices' }))).toBe('ids[0]=1&ids[1]=2&q=a+b');
+    expect(decodeURIComponent(serializeParams(params, { arrayFormat: 'comma' }))).toBe('ids=1,2&q=a+b');
+  });
+
+  it('嵌套对象默认使用方括号，可切换为点号', () => {
+    const nested = { filter: { status: 'active', owner: { id: 1 } }, tags: [{ name: 'x' }] };
+
+    expect(decodeURIComponent(serializeParams(nested))).toBe('filter[status]=active&filter[owner][id]=1&tags[name]=x');
+    expect(decodeURIComponent(serializeParams(nested, { nesting: 'dots', arrayFormat: 'indices' }))).toBe(
+      'filter.status=active&filter.owner.id=1&tags[0].name=x'
+    );
+  });
+
+  it('Date 默认序列化为 ISO 字符串，可自定义', () => {
+    const date = new Date(Date.UTC(2026, 0, 2, 3, 4, 5));
+
+    expect(decodeURIComponent(serializeParams({ since: date }))).toBe('since=2026-01-02T03:04:05.000Z');
+    expect(serializeParams({ since: [date] }, { arrayFormat: 'comma', serializeDate: (d) => String(d.getTime()) })).toBe(
+      `since=${date.getTime()}`
+    );
+  });
+
+  it('should call a custom serializer function as is', () => {
+    expect(serializeParams(params, (input) => `custom=${Object.keys(input).join('|')}`)).toBe('custom=ids|q');
+  });
+
+  it('请求配置的 paramsSerializer 优先于默认值', () => {
+    const url = buildUrl(
+      { url: '/users', method: 'GET', params, paramsSerializer: { arrayFormat: 'comma' } },
+      undefined,
+      { arrayFormat: 'brackets' }
+    );
+
+    expect(url).toBe('/users?ids=1%2C2&q=a+b');
+  });
+});